@@ -1,11 +1,62 @@
-import { Router } from 'express';
+import { Response, Router, text } from 'express';
 import { z } from 'zod';
-import { ScoringService } from '../services/services.scoring';
-import { AIService } from '../services/services.ai';
-import { AssessmentRequestSchema, AssessmentResponseSchema } from '../schemas/schemas.assessment';
+import { config } from '../config/config';
+import { AssessmentService } from '../services/services.assessment';
+import { ProfileService } from '../services/services.profiles';
+import { SeaLevelService } from '../services/services.sea-level';
+import { BatchService } from '../services/services.batch';
+import { ComparisonService } from '../services/services.comparison';
+import { CostBenefitService } from '../services/services.cost-benefit';
+import { OptimizerService } from '../services/services.optimizer';
+import { SensitivityService } from '../services/services.sensitivity';
+import { InsuranceService } from '../services/services.insurance';
+import { ComplianceService } from '../services/services.compliance';
+import { FloodZoneService } from '../services/services.flood-zone';
+import { ElevationService } from '../services/services.elevation';
+import { DatumService } from '../services/services.datum';
+import { AssessmentRequest, AssessmentRequestSchema, AssessmentResponseSchema } from '../schemas/schemas.assessment';
+import { BatchOptionsSchema, BatchResponseSchema } from '../schemas/schemas.batch';
+import { ComparisonRequestSchema, ComparisonResponseSchema } from '../schemas/schemas.comparison';
+import {
+  CostBenefitRequestSchema,
+  CostBenefitResponseSchema,
+  OptimizationRequestSchema,
+  OptimizationResponseSchema,
+} from '../schemas/schemas.retrofit';
+import { SensitivityRequestSchema, SensitivityResponseSchema } from '../schemas/schemas.sensitivity';
+import { InsuranceRequestSchema, InsuranceResponseSchema } from '../schemas/schemas.insurance';
+import { ComplianceRequestSchema, ComplianceResponseSchema } from '../schemas/schemas.compliance';
+import { FloodZoneLookupRequestSchema, FloodZoneLookupSchema } from '../schemas/schemas.flood-zone';
+import { ElevationLookupRequestSchema, ElevationLookupSchema } from '../schemas/schemas.elevation';
 
 const router = Router();
 
+/**
+ * Respond with 400 for invalid request data and 500 for unexpected failures
+ */
+const sendError = (res: Response, error: unknown, context: string, message: string) => {
+  if (error instanceof z.ZodError) {
+    res.status(400).json({
+      error: 'Invalid request data',
+      details: error.errors,
+    });
+  } else {
+    console.error(`${context} error:`, error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message,
+    });
+  }
+};
+
+/**
+ * Resolve the scoring profile of each assessment up front, so an unknown profile id or version
+ * is reported as invalid input before any model runs
+ */
+const validateProfiles = (...assessments: AssessmentRequest[]) => {
+  assessments.forEach(assessment => ProfileService.getProfile(assessment.scoringProfile));
+};
+
 /**
  * POST /api/assess
  * Assess building resilience and generate recommendations
@@ -15,46 +66,208 @@ router.post('/assess', async (req, res) => {
     // Validate request body
     const validatedRequest = AssessmentRequestSchema.parse(req.body);
     
-    // Calculate current score
-    const currentScore = ScoringService.calculateCurrentScore(validatedRequest);
+    // Score the building and generate recommendations
+    const response = AssessmentResponseSchema.parse(await AssessmentService.assess(validatedRequest));
     
-    // Generate timeline
-    const timeline = ScoringService.generateTimeline(validatedRequest);
-    
-    // Get base recommendations from the first timeline entry
-    const baseRecommendations = timeline[0].recommendations;
+    res.json(response);
+  } catch (error) {
+    sendError(res, error, 'Assessment', 'Failed to process assessment request');
+  }
+});
+
+/**
+ * POST /api/compare
+ * Compare 2-5 design options side by side over shared timeline years
+ */
+router.post('/compare', (req, res) => {
+  try {
+    const validatedRequest = ComparisonRequestSchema.parse(req.body);
     
-    // Generate enhanced recommendations using AI
-    const enhancedRecommendations = await AIService.generateEnhancedRecommendations(
-      validatedRequest,
-      baseRecommendations,
-      timeline
-    );
+    validateProfiles(...validatedRequest.variants.map(variant => variant.assessment));
     
-    // Prepare response
-    const response = AssessmentResponseSchema.parse({
-      currentScore,
-      timeline,
-      overallRecommendations: enhancedRecommendations,
+    const response = ComparisonResponseSchema.parse(ComparisonService.compare(validatedRequest));
+    res.json(response);
+  } catch (error) {
+    sendError(res, error, 'Comparison', 'Failed to process comparison request');
+  }
+});
+
+/**
+ * POST /api/batch
+ * Score a portfolio of buildings sent as CSV (text/csv) or JSON Lines (application/x-ndjson).
+ * ?format=csv|jsonl overrides the content type and ?ai=true enables AI recommendations per row.
+ */
+router.post('/batch', text({
+  type: ['text/csv', 'text/plain', 'application/x-ndjson', 'application/jsonl'],
+  limit: config.batch.maxBodySize,
+}), async (req, res) => {
+  try {
+    const contentFormat = req.is('text/csv') ? 'CSV' : req.is(['application/x-ndjson', 'application/jsonl']) ? 'JSONL' : undefined;
+    const options = BatchOptionsSchema.parse({
+      format: typeof req.query.format === 'string' ? req.query.format.toUpperCase() : contentFormat,
+      enhanceRecommendations: req.query.ai === 'true',
     });
+    if (typeof req.body !== 'string') {
+      throw new z.ZodError([{
+        code: z.ZodIssueCode.custom,
+        path: [],
+        message: 'Send the portfolio as a text/csv or application/x-ndjson body',
+      }]);
+    }
     
+    const response = BatchResponseSchema.parse(await BatchService.run(req.body, options));
     res.json(response);
   } catch (error) {
-    if (error instanceof z.ZodError) {
-      res.status(400).json({
-        error: 'Invalid request data',
-        details: error.errors,
-      });
-    } else {
-      console.error('Assessment error:', error);
-      res.status(500).json({
-        error: 'Internal server error',
-        message: 'Failed to process assessment request',
-      });
-    }
+    sendError(res, error, 'Batch', 'Failed to process batch request');
   }
 });
 
+/**
+ * POST /api/cost-benefit
+ * Estimate cost, avoided losses, NPV and benefit-cost ratio of candidate retrofits
+ */
+router.post('/cost-benefit', (req, res) => {
+  try {
+    const validatedRequest = CostBenefitRequestSchema.parse(req.body);
+    
+    validateProfiles(validatedRequest.assessment);
+    
+    const response = CostBenefitResponseSchema.parse(CostBenefitService.analyze(validatedRequest));
+    res.json(response);
+  } catch (error) {
+    sendError(res, error, 'Cost-benefit', 'Failed to process cost-benefit request');
+  }
+});
+
+/**
+ * POST /api/optimize
+ * Find the Pareto-optimal retrofit packages (cost vs. minimum score) within a budget
+ */
+router.post('/optimize', (req, res) => {
+  try {
+    const validatedRequest = OptimizationRequestSchema.parse(req.body);
+    
+    validateProfiles(validatedRequest.assessment);
+    
+    const response = OptimizationResponseSchema.parse(OptimizerService.optimize(validatedRequest));
+    res.json(response);
+  } catch (error) {
+    sendError(res, error, 'Optimization', 'Failed to process optimization request');
+  }
+});
+
+/**
+ * POST /api/sensitivity
+ * Rank the inputs by how much perturbing each one changes the score (tornado chart data)
+ */
+router.post('/sensitivity', (req, res) => {
+  try {
+    const validatedRequest = SensitivityRequestSchema.parse(req.body);
+    
+    validateProfiles(validatedRequest.assessment);
+    
+    const response = SensitivityResponseSchema.parse(SensitivityService.analyze(validatedRequest));
+    res.json(response);
+  } catch (error) {
+    sendError(res, error, 'Sensitivity', 'Failed to process sensitivity request');
+  }
+});
+
+/**
+ * POST /api/insurance
+ * Estimate NFIP flood insurance premium bands now, along the timeline and after retrofits
+ */
+router.post('/insurance', (req, res) => {
+  try {
+    const validatedRequest = InsuranceRequestSchema.parse(req.body);
+    
+    validateProfiles(validatedRequest.assessment);
+    
+    const response = InsuranceResponseSchema.parse(InsuranceService.estimate(validatedRequest));
+    res.json(response);
+  } catch (error) {
+    sendError(res, error, 'Insurance', 'Failed to process insurance request');
+  }
+});
+
+/**
+ * POST /api/compliance
+ * Check a design against building code and floodplain ordinance rule sets
+ */
+router.post('/compliance', (req, res) => {
+  try {
+    const validatedRequest = ComplianceRequestSchema.parse(req.body);
+    
+    const response = ComplianceResponseSchema.parse(ComplianceService.evaluate(validatedRequest));
+    res.json(response);
+  } catch (error) {
+    sendError(res, error, 'Compliance', 'Failed to process compliance request');
+  }
+});
+
+/**
+ * GET /api/compliance/rule-sets
+ * List the available compliance rule sets
+ */
+router.get('/compliance/rule-sets', (req, res) => {
+  res.json({ ruleSets: ComplianceService.listRuleSets() });
+});
+
+/**
+ * GET /api/flood-zones/lookup?latitude=&longitude=
+ * Look up the mapped flood zone and static BFE at a location
+ */
+router.get('/flood-zones/lookup', (req, res) => {
+  try {
+    const location = FloodZoneLookupRequestSchema.parse(req.query);
+
+    res.json(FloodZoneLookupSchema.parse(FloodZoneService.lookup(location)));
+  } catch (error) {
+    sendError(res, error, 'Flood zone lookup', 'Failed to process flood zone lookup request');
+  }
+});
+
+/**
+ * GET /api/elevation?latitude=&longitude=
+ * Look up the ground elevation and its datum at a location from the digital elevation models
+ */
+router.get('/elevation', (req, res) => {
+  try {
+    const location = ElevationLookupRequestSchema.parse(req.query);
+
+    res.json(ElevationLookupSchema.parse(ElevationService.lookup(location)));
+  } catch (error) {
+    sendError(res, error, 'Elevation lookup', 'Failed to process elevation lookup request');
+  }
+});
+
+/**
+ * GET /api/datums
+ * List the vertical datums elevations can be given in
+ */
+router.get('/datums', (req, res) => {
+  res.json({ defaultDatum: config.datums.defaultDatum, datums: DatumService.listDatums() });
+});
+
+/**
+ * GET /api/profiles
+ * List the available scoring profiles and their versions
+ */
+router.get('/profiles', (req, res) => {
+  res.json({ profiles: ProfileService.listProfiles() });
+});
+
+/**
+ * GET /api/scenarios
+ * List the available sea level rise scenarios
+ */
+router.get('/scenarios', (req, res) => {
+  res.json({
+    defaultScenario: config.baselineFloodParameters.defaultScenario,
+    scenarios: SeaLevelService.listScenarios(),
+  });
+});
+
 /**
  * GET /api/health
  * Health check endpoint
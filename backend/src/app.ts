@@ -2,6 +2,34 @@ import express from 'express';
 import cors from 'cors';
 import { config } from './config/config';
 import { apiRouter } from './api/api.routes';
+import { ProfileService } from './services/services.profiles';
+import { SeaLevelService } from './services/services.sea-level';
+import { SubsidenceService } from './services/services.subsidence';
+import { WindService } from './services/services.wind';
+import { HeatService } from './services/services.heat';
+import { PluvialService } from './services/services.pluvial';
+import { LossService } from './services/services.loss';
+import { RetrofitService } from './services/services.retrofit';
+import { InsuranceService } from './services/services.insurance';
+import { ComplianceService } from './services/services.compliance';
+import { DatumService } from './services/services.datum';
+import { FloodZoneService } from './services/services.flood-zone';
+import { ElevationService } from './services/services.elevation';
+
+// Validate scoring profiles and reference data before accepting requests
+ProfileService.loadProfiles();
+SeaLevelService.loadScenarios();
+SubsidenceService.loadGrid();
+WindService.loadGrid();
+HeatService.loadScenarios();
+PluvialService.loadTable();
+LossService.loadCurves();
+RetrofitService.loadCatalog();
+InsuranceService.loadRates();
+ComplianceService.loadRuleSets();
+DatumService.loadTable();
+FloodZoneService.loadMaps();
+ElevationService.loadModels();
 
 const app = express();
 
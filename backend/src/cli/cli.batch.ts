@@ -0,0 +1,88 @@
+/**
+ * Batch portfolio assessment from the command line
+ *
+ *   npm run batch -- <input.csv|input.jsonl> [--output results.csv|results.jsonl]
+ *     [--aggregates aggregates.json] [--format csv|jsonl] [--ai]
+ *
+ * Results go to --output (CSV or JSON Lines by extension, default <input>.results.csv), the
+ * portfolio aggregates to --aggregates (default stdout) and row errors to stderr.
+ */
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { BatchOptionsSchema } from '../schemas/schemas.batch';
+import { BatchService } from '../services/services.batch';
+
+const USAGE = 'Usage: batch <input.csv|input.jsonl> [--output file] [--aggregates file] [--format csv|jsonl] [--ai]';
+
+interface CliArguments {
+  input: string;
+  output?: string;
+  aggregates?: string;
+  format?: string;
+  ai: boolean;
+}
+
+const parseArguments = (args: string[]): CliArguments => {
+  const parsed: Partial<CliArguments> = { ai: false };
+  for (let index = 0; index < args.length; index++) {
+    const arg = args[index];
+    if (arg === '--ai') {
+      parsed.ai = true;
+    } else if (arg === '--output' || arg === '--aggregates' || arg === '--format') {
+      const value = args[++index];
+      if (value === undefined) {
+        throw new Error(`${arg} needs a value`);
+      }
+      parsed[arg.slice(2) as 'output' | 'aggregates' | 'format'] = value;
+    } else if (arg.startsWith('--') || parsed.input) {
+      throw new Error(`Unexpected argument ${arg}`);
+    } else {
+      parsed.input = arg;
+    }
+  }
+
+  if (!parsed.input) {
+    throw new Error('An input file is required');
+  }
+  return parsed as CliArguments;
+};
+
+const main = async () => {
+  const args = parseArguments(process.argv.slice(2));
+  const extension = path.extname(args.input).slice(1);
+  const options = BatchOptionsSchema.parse({
+    format: (args.format ?? (extension === 'jsonl' || extension === 'ndjson' ? 'jsonl' : 'csv')).toUpperCase(),
+    enhanceRecommendations: args.ai,
+  });
+
+  const response = await BatchService.run(fs.readFileSync(args.input, 'utf8'), options);
+
+  const output = args.output ?? args.input.replace(/\.[^./\\]+$/, '') + '.results.csv';
+  fs.writeFileSync(output, path.extname(output) === '.jsonl'
+    ? BatchService.formatResultsJsonl(response.results)
+    : BatchService.formatResultsCsv(response.results));
+
+  for (const error of response.errors) {
+    const issues = error.issues.map(issue => (issue.path ? `${issue.path}: ${issue.message}` : issue.message));
+    console.error(`Row ${error.row} (line ${error.line}${error.id ? `, id ${error.id}` : ''}): ${issues.join('; ')}`);
+  }
+
+  const aggregates = JSON.stringify({ summary: response.summary, aggregates: response.aggregates }, null, 2);
+  if (args.aggregates) {
+    fs.writeFileSync(args.aggregates, aggregates + '\n');
+  } else {
+    console.log(aggregates);
+  }
+  console.error(`Assessed ${response.summary.assessed} of ${response.summary.rows} buildings; results written to ${output}`);
+};
+
+main().catch(error => {
+  if (error instanceof z.ZodError) {
+    error.errors.forEach(issue => console.error(`${issue.path.join('.') || 'input'}: ${issue.message}`));
+  } else {
+    console.error(error instanceof Error ? error.message : error);
+  }
+  console.error(USAGE);
+  process.exit(1);
+});
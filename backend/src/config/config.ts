@@ -1,4 +1,5 @@
 import dotenv from 'dotenv';
+import path from 'path';
 
 dotenv.config();
 
@@ -12,20 +13,120 @@ export const config = {
     model: 'chatgpt-4o-latest',
   },
 
-  // Scoring Weights
-  scoringWeights: {
-    elevation: 0.40,
-    foundationType: 0.20,
-    materials: 0.15,
-    mitigationFeatures: 0.15,
-    utilityProtection: 0.10,
+  // Local Data Files (scoring profiles, reference tables)
+  data: {
+    directory: process.env.DATA_DIR || path.resolve(__dirname, '../../data'),
+  },
+
+  // Scoring Profiles (weights and component tables live in data/profiles)
+  scoring: {
+    defaultProfileId: process.env.SCORING_PROFILE || 'caat-default',
   },
 
   // Baseline Flood Parameters (New Orleans specific)
   baselineFloodParameters: {
-    currentBFE: 8.0, // Base Flood Elevation in feet
-    annualRiseRate: 0.3, // Projected annual rise in feet (3.6 inches/year)
-    simulationYears: [2025, 2030, 2035, 2040, 2045, 2050, 2055],
+    baselineYear: 2025, // Year the user's BFE and elevations describe
+    subsidenceGrid: 'subsidence/new-orleans.json', // Gridded subsidence rates (mm/yr)
+    defaultScenario: 'INTERMEDIATE', // Sea level rise scenario (curves in data/sea-level-rise)
+    simulationYears: [2025, 2030, 2035, 2040, 2045, 2050, 2055], // Default projection horizon
+    simulationStep: 5, // Default years between timeline entries when a request sets a horizon
+    maxProjectionYear: 2100, // Last year covered by the sea level rise and warming curves
+    // Flood elevations of other return periods relative to the 100-year BFE (feet)
+    returnPeriodOffsets: [
+      { returnPeriod: 10, offset: -2.0 },
+      { returnPeriod: 50, offset: -0.5 },
+      { returnPeriod: 100, offset: 0 },
+      { returnPeriod: 500, offset: 2.0 },
+    ],
+    mortgageTermYears: 30, // Horizon for the chance of at least one first-floor flood
+  },
+
+  // Flood Hazard Maps (FEMA NFHL flood hazard areas)
+  floodZones: {
+    directory: 'flood-zones', // GeoJSON (.geojson) and Shapefile (.shp with .dbf) polygon layers
+    zoneField: 'FLD_ZONE',    // Attribute holding the flood zone label
+    bfeField: 'STATIC_BFE',   // Attribute holding the static BFE in feet
+    datumField: 'V_DATUM',    // Attribute holding the vertical datum of the static BFE
+    defaultDatum: 'NAVD88',   // Datum of static BFEs in areas without one
+    noDataBFE: -9999,         // STATIC_BFE value of areas without a static BFE
+    zoneAliases: {            // Map labels scored as one of the assessment flood zones
+      AH: 'AE',
+      AO: 'A',
+      A99: 'A',
+      'AREA OF MINIMAL FLOOD HAZARD': 'X',
+    } as Record<string, string>,
+    bfeMismatchTolerance: 1.0, // Feet between an entered and the mapped BFE before warning
+  },
+
+  // Vertical Datums (conversion grid and gauge datums in data/datums)
+  datums: {
+    table: 'datums/new-orleans.json',
+    defaultDatum: 'NAVD88', // Datum elevations are compared and reported in unless a request sets one
+  },
+
+  // Ground Elevation (digital elevation model rasters listed in the catalog)
+  elevation: {
+    catalog: 'elevation/models.json',
+    siteMismatchTolerance: 2.0, // Feet between an entered and the DEM ground elevation before warning
+  },
+
+  // Rainfall (Pluvial) Flooding
+  pluvial: {
+    idfTable: 'rainfall/new-orleans-idf.json', // Rainfall depth-duration-frequency estimates
+  },
+
+  // Flood Loss Estimation
+  loss: {
+    depthDamageCurves: 'loss/depth-damage.json',
+    defaultOccupancy: 'SINGLE_FAMILY',
+  },
+
+  // Wind Hazard
+  wind: {
+    designWindSpeeds: 'wind/design-wind-speeds.json', // Gridded basic design wind speeds (mph)
+  },
+
+  // Extreme Heat
+  heat: {
+    warmingScenarios: 'heat/warming-scenarios.json', // Summer warming curves (degrees F)
+    defaultScenario: 'SSP2_4_5',
+  },
+
+  // NFIP Flood Insurance Estimates
+  insurance: {
+    ratingTables: 'insurance/nfip-rates.json', // Premium rates, credits and fees
+    defaultFloodZone: 'AE', // Rated zone when the request omits one
+  },
+
+  // Retrofit Cost-Benefit Analysis
+  costBenefit: {
+    costCatalog: 'retrofits/cost-catalog.json',
+    discountRate: 0.07, // Real discount rate (OMB Circular A-94)
+  },
+
+  // Retrofit Optimizer
+  optimizer: {
+    maxElevationIncrease: 8, // Feet, searched in 1 ft steps
+    maxEvaluations: 20000,   // Packages within budget x timeline years through the target year
+  },
+
+  // Monte Carlo Uncertainty Defaults
+  uncertainty: {
+    samples: 500,
+    elevationError: 0.5,      // Survey error on elevation, +/- feet (uniform)
+    seaLevelRiseSpread: 0.25, // Standard deviation of the scenario curve multiplier
+    subsidenceSpread: 0.35,   // Standard deviation of the subsidence rate multiplier
+    maxSampleYears: 100000,   // Samples x timeline years; sampling runs synchronously
+  },
+
+  // Batch Portfolio Assessment
+  batch: {
+    maxRows: 1000,          // Buildings per batch
+    maxBodySize: '5mb',     // Largest CSV or JSON Lines upload
+    scoreBinWidth: 20,      // Points per bin of the score distribution
+    worstPerformers: 10,    // Lowest-scoring buildings listed in the aggregates
+    listSeparator: ';',     // Separates list items in a CSV cell (e.g. mitigationFeatures)
+    maxScoredYears: 100000, // Timeline years scored across all rows (scenarios x years, plus samples x years)
   },
 
   // Performance Thresholds
@@ -0,0 +1,45 @@
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { config } from '../config/config';
+
+/**
+ * Resolve a path inside the configured data directory
+ */
+export const resolveDataPath = (relativePath: string): string => {
+  return path.resolve(config.data.directory, relativePath);
+};
+
+/**
+ * List the files in a data subdirectory with the given extension, sorted by name
+ */
+export const listDataFiles = (relativeDirectory: string, extension: string): string[] => {
+  const directory = resolveDataPath(relativeDirectory);
+  if (!fs.existsSync(directory)) {
+    return [];
+  }
+
+  return fs.readdirSync(directory)
+    .filter(file => file.toLowerCase().endsWith(extension))
+    .sort()
+    .map(file => path.join(relativeDirectory, file));
+};
+
+/**
+ * Read a JSON data file and validate it against a schema.
+ * Throws with the file name and the validation issues when the file is malformed.
+ */
+export const loadDataFile = <T extends z.ZodTypeAny>(relativePath: string, schema: T): z.infer<T> => {
+  const filePath = resolveDataPath(relativePath);
+  const raw = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  const result = schema.safeParse(raw);
+
+  if (!result.success) {
+    const issues = result.error.errors
+      .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid data file ${relativePath}: ${issues}`);
+  }
+
+  return result.data;
+};
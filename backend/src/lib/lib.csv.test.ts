@@ -0,0 +1,43 @@
+import { formatCsv, parseCsv } from './lib.csv';
+
+describe('parseCsv', () => {
+  it('splits records and cells', () => {
+    expect(parseCsv('a,b,c\n1,2,3\n')).toEqual([
+      { line: 1, cells: ['a', 'b', 'c'] },
+      { line: 2, cells: ['1', '2', '3'] },
+    ]);
+  });
+
+  it('reads quoted commas, doubled quotes and empty cells', () => {
+    expect(parseCsv('"x, y","say ""hi""",,""')[0].cells).toEqual(['x, y', 'say "hi"', '', '']);
+  });
+
+  it('accepts CRLF line endings and skips blank lines', () => {
+    expect(parseCsv('a,b\r\n\r\n1,2\r\n')).toEqual([
+      { line: 1, cells: ['a', 'b'] },
+      { line: 3, cells: ['1', '2'] },
+    ]);
+  });
+
+  it('keeps line breaks inside quoted cells and numbers records by their first line', () => {
+    const records = parseCsv('id,note\n1,"first\nsecond"\n2,last');
+    expect(records[1]).toEqual({ line: 2, cells: ['1', 'first\nsecond'] });
+    expect(records[2]).toEqual({ line: 4, cells: ['2', 'last'] });
+  });
+
+  it('rejects an unterminated quoted cell', () => {
+    expect(() => parseCsv('a,b\n1,"open')).toThrow('Unterminated quoted cell starting on line 2');
+  });
+});
+
+describe('formatCsv', () => {
+  it('quotes only cells that need it and writes empty cells for missing values', () => {
+    expect(formatCsv([['a', 1, true, null, undefined], ['x, y', 'say "hi"', 'two\nlines']]))
+      .toBe('a,1,true,,\n"x, y","say ""hi""","two\nlines"\n');
+  });
+
+  it('round-trips through parseCsv', () => {
+    const rows = [['id', 'note'], ['1', 'a, "b"\nc']];
+    expect(parseCsv(formatCsv(rows)).map(record => record.cells)).toEqual(rows);
+  });
+});
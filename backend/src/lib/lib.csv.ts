@@ -0,0 +1,77 @@
+/**
+ * Minimal RFC 4180 CSV reading and writing
+ */
+
+export interface CsvRecord {
+  line: number;    // 1-based line on which the record starts
+  cells: string[];
+}
+
+/**
+ * Split CSV text into records. Quoted cells may contain commas, doubled quotes and line
+ * breaks; CRLF and LF line endings are accepted and blank lines are skipped.
+ */
+export const parseCsv = (text: string): CsvRecord[] => {
+  const records: CsvRecord[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    cells.push(cell);
+    if (cells.length > 1 || cells[0].trim() !== '') {
+      records.push({ line: recordLine, cells });
+    }
+    cells = [];
+    cell = '';
+  };
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') {
+          line++;
+        }
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') {
+        index++;
+      }
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      cell += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error(`Unterminated quoted cell starting on line ${recordLine}`);
+  }
+  endRecord();
+  return records;
+};
+
+/**
+ * Format rows as CSV, quoting cells that contain commas, quotes or line breaks
+ */
+export const formatCsv = (rows: Array<Array<string | number | boolean | null | undefined>>): string =>
+  rows.map(row => row.map(value => {
+    const cell = value === null || value === undefined ? '' : String(value);
+    return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+  }).join(',')).join('\n') + '\n';
@@ -0,0 +1,39 @@
+/**
+ * Regular latitude/longitude grid helpers
+ */
+
+export interface GridBounds {
+  north: number;
+  south: number;
+  west: number;
+  east: number;
+}
+
+/**
+ * Value of the grid cell containing a point, or undefined outside the bounds.
+ * Row 0 is the northern edge and column 0 the western edge; points on the
+ * southern/eastern edge belong to the last row/column.
+ */
+export const lookupGridCell = <T>(
+  bounds: GridBounds,
+  cellSize: number,
+  cells: T[][],
+  latitude: number,
+  longitude: number
+): T | undefined => {
+  if (latitude > bounds.north || latitude < bounds.south || longitude < bounds.west || longitude > bounds.east) {
+    return undefined;
+  }
+
+  const row = Math.min(Math.floor((bounds.north - latitude) / cellSize), cells.length - 1);
+  const column = Math.min(Math.floor((longitude - bounds.west) / cellSize), cells[row].length - 1);
+  return cells[row][column];
+};
+
+/**
+ * Number of rows and columns a grid needs to cover its bounds
+ */
+export const gridDimensions = (bounds: GridBounds, cellSize: number): { rows: number; columns: number } => ({
+  rows: Math.round((bounds.north - bounds.south) / cellSize),
+  columns: Math.round((bounds.east - bounds.west) / cellSize),
+});
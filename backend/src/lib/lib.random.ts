@@ -0,0 +1,35 @@
+/**
+ * Seedable pseudo-random number generation for reproducible simulations
+ */
+
+export type RandomSource = () => number;
+
+/**
+ * Create a uniform [0, 1) generator (mulberry32) from a 32-bit seed
+ */
+export const createRandom = (seed: number): RandomSource => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Sample a uniform value between min and max
+ */
+export const sampleUniform = (random: RandomSource, min: number, max: number): number => {
+  return min + (max - min) * random();
+};
+
+/**
+ * Sample a normally distributed value (Box-Muller transform)
+ */
+export const sampleNormal = (random: RandomSource, mean: number, standardDeviation: number): number => {
+  const u1 = Math.max(random(), Number.EPSILON);
+  const u2 = random();
+  return mean + standardDeviation * Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+};
@@ -0,0 +1,74 @@
+import { Raster, readAsciiGrid, sampleBilinear } from './lib.raster';
+
+const GRID = `ncols 3
+nrows 2
+xllcorner -90
+yllcorner 29
+cellsize 1
+NODATA_value -9999
+1 2 3
+4 5 -9999
+`;
+
+describe('readAsciiGrid', () => {
+  it('reads the header and values with row 0 on the northern edge', () => {
+    const raster = readAsciiGrid(GRID);
+    expect(raster).toMatchObject({ columns: 3, rows: 2, west: -90, north: 31, cellWidth: 1, cellHeight: 1, noData: -9999 });
+    expect(Array.from(raster.values)).toEqual([1, 2, 3, 4, 5, -9999]);
+  });
+
+  it('moves center registration to the outer corner', () => {
+    const raster = readAsciiGrid(GRID.replace('xllcorner -90', 'xllcenter -89.5').replace('yllcorner 29', 'yllcenter 29.5'));
+    expect(raster.west).toBe(-90);
+    expect(raster.north).toBe(31);
+  });
+
+  it('rejects a bad header or the wrong number of values', () => {
+    expect(() => readAsciiGrid(GRID.replace('cellsize 1', 'cellsize 0'))).toThrow('positive ncols, nrows and cellsize');
+    expect(() => readAsciiGrid(GRID.replace('xllcorner -90\n', ''))).toThrow('xllcorner/xllcenter');
+    expect(() => readAsciiGrid(GRID.replace(' -9999\n', '\n'))).toThrow('ASCII grid has 5 values; expected 6');
+  });
+});
+
+describe('sampleBilinear', () => {
+  const raster: Raster = {
+    columns: 2,
+    rows: 2,
+    west: 0,
+    north: 2,
+    cellWidth: 1,
+    cellHeight: 1,
+    values: Float64Array.from([0, 10, 20, 30]),
+  };
+
+  it('returns cell values at cell centers', () => {
+    expect(sampleBilinear(raster, 0.5, 1.5)).toBe(0);
+    expect(sampleBilinear(raster, 1.5, 0.5)).toBe(30);
+  });
+
+  it('interpolates between cell centers', () => {
+    expect(sampleBilinear(raster, 1, 1)).toBeCloseTo(15);
+    expect(sampleBilinear(raster, 1, 1.5)).toBeCloseTo(5);
+  });
+
+  it('holds the edge cells between the last cell centers and the raster edge', () => {
+    expect(sampleBilinear(raster, 0, 2)).toBe(0);
+    expect(sampleBilinear(raster, 2, 0)).toBe(30);
+  });
+
+  it('is undefined outside the raster', () => {
+    expect(sampleBilinear(raster, -0.1, 1)).toBeUndefined();
+    expect(sampleBilinear(raster, 1, 2.1)).toBeUndefined();
+  });
+
+  it('leaves out NODATA cells and rescales the remaining weights', () => {
+    const withHole = { ...raster, noData: -9999, values: Float64Array.from([0, 10, 20, -9999]) };
+    expect(sampleBilinear(withHole, 1, 1)).toBeCloseTo(10);
+    expect(sampleBilinear({ ...withHole, values: Float64Array.from([-9999, -9999, -9999, -9999]) }, 1, 1)).toBeUndefined();
+  });
+
+  it('matches a float32 NODATA value', () => {
+    const grid = readAsciiGrid(GRID.replace(/-9999/g, '-3.4e38'));
+    expect(sampleBilinear(grid, -88, 29.5)).toBe(5);
+  });
+});
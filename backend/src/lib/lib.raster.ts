@@ -0,0 +1,264 @@
+/**
+ * Single-band elevation rasters (ESRI ASCII grid and uncompressed GeoTIFF) with bilinear sampling
+ */
+
+export interface Raster {
+  columns: number;
+  rows: number;
+  west: number;       // Outer edge of the first column
+  north: number;      // Outer edge of the first row (row 0 is the northern edge)
+  cellWidth: number;  // Degrees of longitude per column
+  cellHeight: number; // Degrees of latitude per row
+  noData?: number;
+  values: Float32Array | Float64Array; // Row-major (float32 keeps large elevation rasters compact)
+}
+
+/**
+ * Read an ESRI ASCII grid (.asc): a header of ncols, nrows, xllcorner/xllcenter,
+ * yllcorner/yllcenter, cellsize and optional NODATA_value, then rows from north to south
+ */
+export const readAsciiGrid = (text: string): Raster => {
+  const tokens = text.trim().split(/\s+/);
+  const header: Record<string, number> = {};
+  let position = 0;
+  while (position < tokens.length && /^[a-z_]+$/i.test(tokens[position])) {
+    header[tokens[position].toLowerCase()] = Number(tokens[position + 1]);
+    position += 2;
+  }
+
+  const columns = header.ncols;
+  const rows = header.nrows;
+  const cellSize = header.cellsize;
+  if (!(columns > 0) || !(rows > 0) || !(cellSize > 0)) {
+    throw new Error('ASCII grid header needs positive ncols, nrows and cellsize');
+  }
+
+  // Center registration describes the middle of the lower-left cell instead of its corner
+  const west = header.xllcorner ?? header.xllcenter - cellSize / 2;
+  const south = header.yllcorner ?? header.yllcenter - cellSize / 2;
+  if (!Number.isFinite(west) || !Number.isFinite(south)) {
+    throw new Error('ASCII grid header needs xllcorner/xllcenter and yllcorner/yllcenter');
+  }
+  if (tokens.length - position !== columns * rows) {
+    throw new Error(`ASCII grid has ${tokens.length - position} values; expected ${columns * rows}`);
+  }
+
+  return {
+    columns,
+    rows,
+    west,
+    north: south + rows * cellSize,
+    cellWidth: cellSize,
+    cellHeight: cellSize,
+    noData: header.nodata_value,
+    values: Float32Array.from(tokens.slice(position), Number),
+  };
+};
+
+const TIFF_TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 6: 1, 8: 2, 9: 4, 11: 4, 12: 8 };
+
+const TAG = {
+  width: 256,
+  height: 257,
+  bitsPerSample: 258,
+  compression: 259,
+  stripOffsets: 273,
+  samplesPerPixel: 277,
+  rowsPerStrip: 278,
+  tileWidth: 322,
+  tileLength: 323,
+  tileOffsets: 324,
+  sampleFormat: 339,
+  modelPixelScale: 33550,
+  modelTiepoint: 33922,
+  geoKeyDirectory: 34735,
+  gdalNoData: 42113,
+};
+
+const GT_RASTER_TYPE_KEY = 1025;
+const RASTER_PIXEL_IS_POINT = 2;
+
+/**
+ * Read the first band of an uncompressed, stripped or tiled GeoTIFF in geographic coordinates,
+ * georeferenced by ModelPixelScale and ModelTiepoint, with the GDAL_NODATA value if present
+ */
+export const readGeoTiff = (buffer: Buffer): Raster => {
+  const byteOrder = buffer.toString('latin1', 0, 2);
+  if (byteOrder !== 'II' && byteOrder !== 'MM') {
+    throw new Error('Not a TIFF file (bad byte order mark)');
+  }
+  const littleEndian = byteOrder === 'II';
+  const u16 = (offset: number) => (littleEndian ? buffer.readUInt16LE(offset) : buffer.readUInt16BE(offset));
+  const u32 = (offset: number) => (littleEndian ? buffer.readUInt32LE(offset) : buffer.readUInt32BE(offset));
+  if (u16(2) !== 42) {
+    throw new Error('Only classic TIFF files can be read (BigTIFF is not supported)');
+  }
+
+  // Values of each tag in the first image file directory
+  const tags = new Map<number, number[] | string>();
+  const directory = u32(4);
+  for (let entry = 0; entry < u16(directory); entry++) {
+    const offset = directory + 2 + entry * 12;
+    const type = u16(offset + 2);
+    const count = u32(offset + 4);
+    const size = TIFF_TYPE_SIZES[type];
+    if (!size) {
+      continue;
+    }
+    const start = size * count <= 4 ? offset + 8 : u32(offset + 8);
+    if (type === 2) {
+      tags.set(u16(offset), buffer.toString('latin1', start, start + count).replace(/\0+$/, ''));
+      continue;
+    }
+    tags.set(u16(offset), Array.from({ length: count }, (_, index) =>
+      readTiffValue(buffer, type, start + index * size, littleEndian)));
+  }
+
+  const numbers = (tag: number): number[] | undefined => {
+    const value = tags.get(tag);
+    return Array.isArray(value) ? value : undefined;
+  };
+  const first = (tag: number, fallback?: number): number => {
+    const value = numbers(tag)?.[0] ?? fallback;
+    if (value === undefined) {
+      throw new Error(`GeoTIFF is missing TIFF tag ${tag}`);
+    }
+    return value;
+  };
+
+  if (first(TAG.compression, 1) !== 1) {
+    throw new Error('Only uncompressed GeoTIFFs can be read; convert with gdal_translate -co COMPRESS=NONE');
+  }
+  const columns = first(TAG.width);
+  const rows = first(TAG.height);
+  const samplesPerPixel = first(TAG.samplesPerPixel, 1);
+  const bitsPerSample = first(TAG.bitsPerSample, 1);
+  const sampleFormat = first(TAG.sampleFormat, 1);
+  const bytesPerSample = bitsPerSample / 8;
+  const readSample = sampleReader(buffer, sampleFormat, bitsPerSample, littleEndian);
+
+  const scale = numbers(TAG.modelPixelScale);
+  const tiepoint = numbers(TAG.modelTiepoint);
+  if (!scale || !tiepoint) {
+    throw new Error('GeoTIFF needs ModelPixelScale and ModelTiepoint georeferencing');
+  }
+
+  const values = new Float32Array(columns * rows);
+  const tileOffsets = numbers(TAG.tileOffsets);
+  if (tileOffsets) {
+    const tileWidth = first(TAG.tileWidth);
+    const tileLength = first(TAG.tileLength);
+    const tilesAcross = Math.ceil(columns / tileWidth);
+    tileOffsets.forEach((tileOffset, tile) => {
+      const top = Math.floor(tile / tilesAcross) * tileLength;
+      const left = (tile % tilesAcross) * tileWidth;
+      for (let y = 0; y < tileLength && top + y < rows; y++) {
+        for (let x = 0; x < tileWidth && left + x < columns; x++) {
+          const offset = tileOffset + ((y * tileWidth + x) * samplesPerPixel) * bytesPerSample;
+          values[(top + y) * columns + left + x] = readSample(offset);
+        }
+      }
+    });
+  } else {
+    const rowsPerStrip = first(TAG.rowsPerStrip, rows);
+    const stripOffsets = numbers(TAG.stripOffsets) ?? [];
+    for (let row = 0; row < rows; row++) {
+      const stripStart = stripOffsets[Math.floor(row / rowsPerStrip)];
+      for (let column = 0; column < columns; column++) {
+        const offset = stripStart + (((row % rowsPerStrip) * columns + column) * samplesPerPixel) * bytesPerSample;
+        values[row * columns + column] = readSample(offset);
+      }
+    }
+  }
+
+  // With PixelIsPoint registration the tiepoint marks the middle of the first cell, not its corner
+  const geoKeys = numbers(TAG.geoKeyDirectory) ?? [];
+  let pixelIsPoint = false;
+  for (let key = 4; key + 3 < geoKeys.length; key += 4) {
+    if (geoKeys[key] === GT_RASTER_TYPE_KEY && geoKeys[key + 1] === 0) {
+      pixelIsPoint = geoKeys[key + 3] === RASTER_PIXEL_IS_POINT;
+    }
+  }
+  const [cellWidth, cellHeight] = scale;
+  const [i, j, , x, y] = tiepoint;
+  const shift = pixelIsPoint ? 0.5 : 0;
+  const noData = tags.get(TAG.gdalNoData);
+
+  return {
+    columns,
+    rows,
+    west: x - (i + shift) * cellWidth,
+    north: y + (j + shift) * cellHeight,
+    cellWidth,
+    cellHeight,
+    noData: typeof noData === 'string' && noData.trim() !== '' ? Number(noData) : undefined,
+    values,
+  };
+};
+
+const readTiffValue = (buffer: Buffer, type: number, offset: number, littleEndian: boolean): number => {
+  switch (type) {
+    case 3: return littleEndian ? buffer.readUInt16LE(offset) : buffer.readUInt16BE(offset);
+    case 4: return littleEndian ? buffer.readUInt32LE(offset) : buffer.readUInt32BE(offset);
+    case 8: return littleEndian ? buffer.readInt16LE(offset) : buffer.readInt16BE(offset);
+    case 9: return littleEndian ? buffer.readInt32LE(offset) : buffer.readInt32BE(offset);
+    case 11: return littleEndian ? buffer.readFloatLE(offset) : buffer.readFloatBE(offset);
+    case 12: return littleEndian ? buffer.readDoubleLE(offset) : buffer.readDoubleBE(offset);
+    case 6: return buffer.readInt8(offset);
+    default: return buffer.readUInt8(offset);
+  }
+};
+
+const sampleReader = (
+  buffer: Buffer,
+  sampleFormat: number,
+  bitsPerSample: number,
+  littleEndian: boolean
+): ((offset: number) => number) => {
+  // TIFF type codes for each (SampleFormat, BitsPerSample): 1 unsigned, 2 signed, 3 floating point
+  const types: Record<string, number> = { '1-8': 1, '1-16': 3, '1-32': 4, '2-8': 6, '2-16': 8, '2-32': 9, '3-32': 11, '3-64': 12 };
+  const type = types[`${sampleFormat}-${bitsPerSample}`];
+  if (!type) {
+    throw new Error(`Unsupported GeoTIFF sample format ${sampleFormat} with ${bitsPerSample} bits per sample`);
+  }
+  return offset => readTiffValue(buffer, type, offset, littleEndian);
+};
+
+/**
+ * Bilinear interpolation between the centers of the four cells around a point, or undefined outside
+ * the raster. NODATA cells are left out and the remaining weights rescaled; undefined if all are NODATA.
+ */
+export const sampleBilinear = (raster: Raster, longitude: number, latitude: number): number | undefined => {
+  const { columns, rows, west, north, cellWidth, cellHeight, values } = raster;
+  const { noData } = raster;
+  const isNoData = (value: number) => noData !== undefined && (value === noData || value === Math.fround(noData));
+  const x = (longitude - west) / cellWidth;
+  const y = (north - latitude) / cellHeight;
+  if (x < 0 || y < 0 || x > columns || y > rows) {
+    return undefined;
+  }
+
+  // Fractional position between cell centers, held at the edge cells along the border
+  const fx = Math.min(Math.max(x - 0.5, 0), columns - 1);
+  const fy = Math.min(Math.max(y - 0.5, 0), rows - 1);
+  const column = Math.min(Math.floor(fx), Math.max(columns - 2, 0));
+  const row = Math.min(Math.floor(fy), Math.max(rows - 2, 0));
+  const tx = fx - column;
+  const ty = fy - row;
+
+  let total = 0;
+  let weightTotal = 0;
+  for (const [dx, dy, weight] of [
+    [0, 0, (1 - tx) * (1 - ty)],
+    [1, 0, tx * (1 - ty)],
+    [0, 1, (1 - tx) * ty],
+    [1, 1, tx * ty],
+  ]) {
+    const value = values[Math.min(row + dy, rows - 1) * columns + Math.min(column + dx, columns - 1)];
+    if (weight > 0 && Number.isFinite(value) && !isNoData(value)) {
+      total += value * weight;
+      weightTotal += weight;
+    }
+  }
+  return weightTotal > 0 ? total / weightTotal : undefined;
+};
@@ -0,0 +1,92 @@
+/**
+ * Minimal ESRI Shapefile reader for polygon layers (.shp geometry with .dbf attributes)
+ */
+import { Ring } from './lib.spatial';
+
+export interface ShapefileFeature {
+  rings: Ring[];
+  properties: Record<string, string | number | null>;
+}
+
+const SHP_HEADER_LENGTH = 100;
+const POLYGON_TYPES = new Set([5, 15, 25]); // Polygon, PolygonZ, PolygonM (Z and M values are ignored)
+const NULL_SHAPE = 0;
+
+/**
+ * Read the polygons of a .shp file, paired by record with the attributes of its .dbf file.
+ * Coordinates are returned as stored, so the layer must use geographic longitude/latitude.
+ */
+export const readShapefile = (shp: Buffer, dbf?: Buffer): ShapefileFeature[] => {
+  if (shp.length < SHP_HEADER_LENGTH || shp.readInt32BE(0) !== 9994) {
+    throw new Error('Not a shapefile (bad file code)');
+  }
+
+  const attributes = dbf ? readDbf(dbf) : [];
+  const features: ShapefileFeature[] = [];
+  const fileLength = Math.min(shp.readInt32BE(24) * 2, shp.length); // Header lengths are in 16-bit words
+  let offset = SHP_HEADER_LENGTH;
+  let record = 0;
+
+  while (offset + 8 <= fileLength) {
+    const contentLength = shp.readInt32BE(offset + 4) * 2;
+    const content = offset + 8;
+    const shapeType = shp.readInt32LE(content);
+
+    if (POLYGON_TYPES.has(shapeType)) {
+      const partCount = shp.readInt32LE(content + 36);
+      const pointCount = shp.readInt32LE(content + 40);
+      const parts = Array.from({ length: partCount }, (_, index) => shp.readInt32LE(content + 44 + index * 4));
+      const points = content + 44 + partCount * 4;
+
+      const rings = parts.map((start, index) => {
+        const end = index + 1 < partCount ? parts[index + 1] : pointCount;
+        return Array.from({ length: end - start }, (_, point): [number, number] => [
+          shp.readDoubleLE(points + (start + point) * 16),
+          shp.readDoubleLE(points + (start + point) * 16 + 8),
+        ]);
+      });
+      features.push({ rings, properties: attributes[record] ?? {} });
+    } else if (shapeType !== NULL_SHAPE) {
+      throw new Error(`Unsupported shape type ${shapeType}; only polygon layers can be read`);
+    }
+
+    offset = content + contentLength;
+    record++;
+  }
+
+  return features;
+};
+
+/**
+ * Read the records of a dBASE III table. Numeric and float fields become numbers (blank as null),
+ * every other field a trimmed string; deleted records are kept as empty so records stay aligned.
+ */
+export const readDbf = (dbf: Buffer): Array<Record<string, string | number | null>> => {
+  const recordCount = dbf.readUInt32LE(4);
+  const headerLength = dbf.readUInt16LE(8);
+  const recordLength = dbf.readUInt16LE(10);
+
+  const fields: Array<{ name: string; type: string; offset: number; length: number }> = [];
+  let fieldOffset = 1; // Each record starts with a deletion flag
+  for (let descriptor = 32; descriptor < headerLength - 1 && dbf[descriptor] !== 0x0d; descriptor += 32) {
+    const name = dbf.toString('latin1', descriptor, descriptor + 11).replace(/\0.*$/, '');
+    const length = dbf[descriptor + 16];
+    fields.push({ name, type: String.fromCharCode(dbf[descriptor + 11]), offset: fieldOffset, length });
+    fieldOffset += length;
+  }
+
+  return Array.from({ length: recordCount }, (_, index) => {
+    const start = headerLength + index * recordLength;
+    if (dbf[start] === 0x2a) { // '*' marks a deleted record
+      return {};
+    }
+
+    return Object.fromEntries(fields.map(field => {
+      const raw = dbf.toString('latin1', start + field.offset, start + field.offset + field.length).trim();
+      if (field.type === 'N' || field.type === 'F') {
+        return [field.name, raw === '' ? null : Number(raw)];
+      }
+      return [field.name, raw];
+    }));
+  });
+};
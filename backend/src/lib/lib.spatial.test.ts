@@ -0,0 +1,67 @@
+import { createSpatialIndex, pointInRings, Ring, ringsBounds } from './lib.spatial';
+
+const square = (west: number, south: number, size: number): Ring => [
+  [west, south], [west + size, south], [west + size, south + size], [west, south + size], [west, south],
+];
+
+describe('ringsBounds', () => {
+  it('covers every ring', () => {
+    expect(ringsBounds([square(0, 0, 1), square(2, -1, 1)])).toEqual({ north: 1, south: -1, west: 0, east: 3 });
+  });
+});
+
+describe('pointInRings', () => {
+  const outer = square(0, 0, 10);
+  const hole = square(4, 4, 2);
+
+  it('finds points inside and outside a polygon', () => {
+    expect(pointInRings([outer], 5, 5)).toBe(true);
+    expect(pointInRings([outer], 11, 5)).toBe(false);
+    expect(pointInRings([outer], 5, -1)).toBe(false);
+  });
+
+  it('leaves out points in a hole', () => {
+    expect(pointInRings([outer, hole], 5, 5)).toBe(false);
+    expect(pointInRings([outer, hole], 2, 2)).toBe(true);
+  });
+
+  it('treats the parts of a multipolygon alike', () => {
+    const parts = [square(0, 0, 1), square(5, 5, 1)];
+    expect(pointInRings(parts, 0.5, 0.5)).toBe(true);
+    expect(pointInRings(parts, 5.5, 5.5)).toBe(true);
+    expect(pointInRings(parts, 3, 3)).toBe(false);
+  });
+});
+
+describe('createSpatialIndex', () => {
+  const items = Array.from({ length: 9 }, (_, index) => {
+    const ring = square(index % 3, Math.floor(index / 3), 1);
+    return { bounds: ringsBounds([ring]), item: index };
+  });
+  const index = createSpatialIndex(items);
+
+  it('returns the items whose bounds contain the point', () => {
+    expect(index.size).toBe(9);
+    expect(index.query(0.5, 0.5)).toEqual([0]);
+    expect(index.query(2.5, 2.5)).toEqual([8]);
+  });
+
+  it('returns every item touching a shared edge', () => {
+    expect(index.query(1, 1.5).sort()).toEqual([3, 4]);
+  });
+
+  it('returns nothing outside the indexed bounds', () => {
+    expect(index.query(-0.1, 0.5)).toEqual([]);
+    expect(index.query(1.5, 3.1)).toEqual([]);
+    expect(createSpatialIndex([]).query(0, 0)).toEqual([]);
+  });
+
+  it('finds an item spanning several cells from any of them', () => {
+    const wide = createSpatialIndex([
+      ...items,
+      { bounds: { north: 3, south: 0, west: 0, east: 3 }, item: 99 },
+    ]);
+    expect(wide.query(0.5, 0.5)).toContain(99);
+    expect(wide.query(2.5, 2.5)).toContain(99);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Polygon geometry and a uniform grid spatial index for point lookups
+ */
+import { GridBounds } from './lib.grid';
+
+export type Position = [number, number]; // [longitude, latitude]
+export type Ring = Position[];
+
+/**
+ * Bounding box of a set of rings
+ */
+export const ringsBounds = (rings: Ring[]): GridBounds => {
+  const bounds = { north: -Infinity, south: Infinity, west: Infinity, east: -Infinity };
+  for (const ring of rings) {
+    for (const [longitude, latitude] of ring) {
+      bounds.north = Math.max(bounds.north, latitude);
+      bounds.south = Math.min(bounds.south, latitude);
+      bounds.west = Math.min(bounds.west, longitude);
+      bounds.east = Math.max(bounds.east, longitude);
+    }
+  }
+  return bounds;
+};
+
+/**
+ * Point-in-polygon by ray casting with the even-odd rule over every ring, so holes (and the
+ * parts of a multipolygon) need no special handling as long as the parts do not overlap
+ */
+export const pointInRings = (rings: Ring[], longitude: number, latitude: number): boolean => {
+  let inside = false;
+  for (const ring of rings) {
+    for (let current = 0, previous = ring.length - 1; current < ring.length; previous = current++) {
+      const [x1, y1] = ring[current];
+      const [x2, y2] = ring[previous];
+      if ((y1 > latitude) !== (y2 > latitude) && longitude < ((x2 - x1) * (latitude - y1)) / (y2 - y1) + x1) {
+        inside = !inside;
+      }
+    }
+  }
+  return inside;
+};
+
+export interface SpatialIndex<T> {
+  bounds: GridBounds;
+  size: number;
+  query: (longitude: number, latitude: number) => T[]; // Items whose bounding box contains the point
+}
+
+/**
+ * Bucket items by bounding box into a uniform grid sized to about one cell per item,
+ * so a point lookup only tests the few items overlapping its cell
+ */
+export const createSpatialIndex = <T>(items: Array<{ bounds: GridBounds; item: T }>): SpatialIndex<T> => {
+  const bounds = items.reduce<GridBounds>((all, { bounds: itemBounds }) => ({
+    north: Math.max(all.north, itemBounds.north),
+    south: Math.min(all.south, itemBounds.south),
+    west: Math.min(all.west, itemBounds.west),
+    east: Math.max(all.east, itemBounds.east),
+  }), { north: -Infinity, south: Infinity, west: Infinity, east: -Infinity });
+
+  const side = Math.max(1, Math.ceil(Math.sqrt(items.length)));
+  const cellWidth = (bounds.east - bounds.west) / side || 1;
+  const cellHeight = (bounds.north - bounds.south) / side || 1;
+  const column = (longitude: number) => Math.min(Math.floor((longitude - bounds.west) / cellWidth), side - 1);
+  const row = (latitude: number) => Math.min(Math.floor((latitude - bounds.south) / cellHeight), side - 1);
+
+  const cells: Array<Array<{ bounds: GridBounds; item: T }>> = Array.from({ length: side * side }, () => []);
+  for (const entry of items) {
+    for (let r = row(entry.bounds.south); r <= row(entry.bounds.north); r++) {
+      for (let c = column(entry.bounds.west); c <= column(entry.bounds.east); c++) {
+        cells[r * side + c].push(entry);
+      }
+    }
+  }
+
+  return {
+    bounds,
+    size: items.length,
+    query: (longitude, latitude) => {
+      if (items.length === 0 || latitude > bounds.north || latitude < bounds.south ||
+        longitude < bounds.west || longitude > bounds.east) {
+        return [];
+      }
+      return cells[row(latitude) * side + column(longitude)]
+        .filter(({ bounds: itemBounds }) =>
+          latitude <= itemBounds.north && latitude >= itemBounds.south &&
+          longitude >= itemBounds.west && longitude <= itemBounds.east)
+        .map(({ item }) => item);
+    },
+  };
+};
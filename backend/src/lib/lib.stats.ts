@@ -0,0 +1,18 @@
+/**
+ * Descriptive statistics helpers
+ */
+
+/**
+ * Percentile (0-100) of a list of values using linear interpolation between closest ranks
+ */
+export const percentile = (values: number[], p: number): number => {
+  if (values.length === 0) {
+    return NaN;
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+};
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { config } from '../config/config';
 
 // Foundation Types
 export const FoundationType = z.enum([
@@ -17,6 +18,13 @@ export const MaterialType = z.enum([
   'MIXED',
 ]);
 
+// Material Locations relative to the design flood elevation (DFE)
+export const MaterialLocation = z.enum([
+  'BELOW_DFE',  // Exposed to floodwater, e.g. lower-level walls, floor framing and finishes
+  'ABOVE_DFE',  // Above the flood line, e.g. upper floors and interior finishes
+  'THROUGHOUT', // Location unknown or the assembly spans the whole building
+]);
+
 // Roof Material Types (separate from structural materials)
 export const RoofMaterialType = z.enum([
   'METAL',
@@ -24,6 +32,29 @@ export const RoofMaterialType = z.enum([
   'TILE',
 ]);
 
+// Roof Shapes (hip roofs see the lowest uplift, gable ends are the most exposed)
+export const RoofShape = z.enum([
+  'HIP',
+  'GABLE',
+  'FLAT',
+]);
+
+// Roof-to-Wall Connections (FORTIFIED terminology, weakest to strongest)
+export const RoofToWallConnection = z.enum([
+  'TOE_NAIL',
+  'CLIPS',
+  'SINGLE_WRAP',
+  'DOUBLE_WRAP',
+]);
+
+// Window and Door Opening Protection
+export const OpeningProtection = z.enum([
+  'NONE',
+  'TEMPORARY_PANELS',
+  'PERMANENT_SHUTTERS',
+  'IMPACT_RATED',
+]);
+
 // Mitigation Features
 export const MitigationFeature = z.enum([
   'FLOOD_VENTS',
@@ -33,38 +64,494 @@ export const MitigationFeature = z.enum([
   'FLOOD_BARRIERS',
 ]);
 
+// Building Occupancy Types
+export const OccupancyType = z.enum([
+  'SINGLE_FAMILY',
+  'DUPLEX',
+  'MULTI_FAMILY',
+  'COMMERCIAL',
+  'SCHOOL',
+]);
+
+// Use of the space below an elevated first floor
+export const LowerLevelUse = z.enum([
+  'PARKING',
+  'STORAGE',
+  'LIVING_SPACE', // Finished, occupied space below the first floor
+]);
+
+// FEMA Flood Zones (V/VE are coastal high hazard areas, X is outside the 1% annual chance floodplain)
+export const FloodZone = z.enum([
+  'A',
+  'AE',
+  'V',
+  'VE',
+  'X',
+]);
+
+// Sea Level Rise Scenarios
+export const SeaLevelScenario = z.enum([
+  'LOW',
+  'INTERMEDIATE_LOW',
+  'INTERMEDIATE',
+  'INTERMEDIATE_HIGH',
+  'HIGH',
+]);
+
+// Warming Scenarios (CMIP6 shared socioeconomic pathways)
+export const WarmingScenario = z.enum([
+  'SSP1_2_6',
+  'SSP2_4_5',
+  'SSP3_7_0',
+  'SSP5_8_5',
+]);
+
+// Envelope Insulation Level
+export const InsulationLevel = z.enum([
+  'POOR',
+  'CODE_MINIMUM',
+  'HIGH_PERFORMANCE',
+]);
+
+// Exterior Shading of Windows
+export const ShadingLevel = z.enum([
+  'NONE',
+  'PARTIAL',
+  'FULL',
+]);
+
+// Backup Power for Cooling During Outages
+export const BackupPower = z.enum([
+  'NONE',
+  'CRITICAL_LOADS', // Enough to cool at least one room
+  'WHOLE_BUILDING',
+]);
+
+// Lot Grading Relative to the Building
+export const LotGrading = z.enum([
+  'SLOPES_AWAY',
+  'FLAT',
+  'SLOPES_TOWARD',
+]);
+
+// Site Location (WGS84 decimal degrees)
+export const LocationSchema = z.object({
+  latitude: z.number(),
+  longitude: z.number(),
+});
+
+// Scoring profile selection (latest version of the profile is used when version is omitted)
+export const ScoringProfileSelectionSchema = z.object({
+  id: z.string(),
+  version: z.string().optional(),
+});
+
+// Building and Contents Values (enables loss estimates)
+export const ValuationSchema = z.object({
+  buildingReplacementValue: z.number().positive(), // Dollars
+  contentsValue: z.number().min(0),                // Dollars
+});
+
+// Flood Elevation of one Return Period (feet)
+export const FloodElevationSchema = z.object({
+  returnPeriod: z.number().gt(1), // Years
+  elevation: z.number(),
+});
+
+// Site flood elevations; return periods that are not given are derived from the 100-year BFE
+export const FloodElevationsSchema = z.array(FloodElevationSchema).min(1).superRefine((elevations, ctx) => {
+  const sorted = [...elevations].sort((a, b) => a.returnPeriod - b.returnPeriod);
+  sorted.forEach((entry, index) => {
+    const previous = sorted[index - 1];
+    if (previous && previous.returnPeriod === entry.returnPeriod) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Duplicate ${entry.returnPeriod}-year flood elevation` });
+    } else if (previous && entry.elevation < previous.elevation) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `The ${entry.returnPeriod}-year flood elevation is below the ${previous.returnPeriod}-year elevation`,
+      });
+    }
+  });
+});
+
+// Monte Carlo Uncertainty Options (defaults come from config.uncertainty)
+export const UncertaintyOptionsSchema = z.object({
+  samples: z.number().int().min(100).max(5000).optional(),
+  seed: z.number().int().optional(),             // Fix for reproducible bands
+  elevationError: z.number().min(0).max(5).optional(), // +/- feet of survey error
+});
+
+// Material Assembly (a share of the building's construction by material and location)
+export const MaterialAssemblySchema = z.object({
+  material: MaterialType,
+  share: z.number().gt(0).max(100), // Percent of the building's construction
+  location: MaterialLocation.default('THROUGHOUT'),
+  assembly: z.string().max(100).optional(), // Label, e.g. "Ground floor walls"
+});
+
+// Material assemblies whose shares sum to 100%. Legacy lists of material names are
+// accepted and split into equal shares throughout the building.
+export const MaterialAssembliesSchema = z.preprocess(
+  materials => Array.isArray(materials) && materials.every(material => typeof material === 'string')
+    ? materials.map(material => ({ material, share: 100 / materials.length }))
+    : materials,
+  z.array(MaterialAssemblySchema).min(1).refine(
+    assemblies => Math.abs(assemblies.reduce((sum, assembly) => sum + assembly.share, 0) - 100) < 0.01,
+    { message: 'Material shares must sum to 100%' }
+  )
+);
+
+// Vertical Datum: NAVD88, NGVD29 or a local gauge datum listed in data/datums
+export const VerticalDatum = z.string().regex(/^[A-Z][A-Z0-9_]*$/, 'Expected a datum id such as NAVD88, NGVD29 or a gauge datum');
+
+// Datum of each absolute elevation input; inputs that are not tagged are in the request's datum
+export const ElevationDatumsSchema = z.object({
+  currentBFE: VerticalDatum.optional(),
+  floodElevations: VerticalDatum.optional(),
+  siteElevation: VerticalDatum.optional(),
+  firstFloorElevation: VerticalDatum.optional(),
+});
+
+// Projection Horizon (defaults to config.baselineFloodParameters.simulationYears)
+const { baselineYear, simulationYears, maxProjectionYear } = config.baselineFloodParameters;
+const ProjectionYear = z.number().int().min(baselineYear).max(maxProjectionYear);
+
+export const ProjectionHorizonSchema = z.object({
+  startYear: ProjectionYear.optional(),         // Defaults to the baseline year
+  endYear: ProjectionYear.optional(),           // Defaults to the last default simulation year; always included
+  step: z.number().int().min(1).max(50).optional(), // Years between entries (1 for annual)
+  years: z.array(ProjectionYear).min(1).optional(), // Custom list instead of start, end and step
+}).superRefine((horizon, ctx) => {
+  if (horizon.years) {
+    if (horizon.startYear !== undefined || horizon.endYear !== undefined || horizon.step !== undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['years'],
+        message: 'Give either a list of years or startYear, endYear and step',
+      });
+    }
+    if (horizon.years.some((year, index) => index > 0 && year <= horizon.years![index - 1])) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['years'],
+        message: 'Years must be strictly increasing',
+      });
+    }
+  } else if ((horizon.startYear ?? baselineYear) > (horizon.endYear ?? simulationYears[simulationYears.length - 1])) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['endYear'],
+      message: 'endYear must not be before startYear',
+    });
+  }
+});
+
 // Assessment Request Schema
 export const AssessmentRequestSchema = z.object({
   foundationType: FoundationType,
-  elevationAboveBFE: z.number().min(0),
-  currentBFE: z.number().min(0), // User's site Base Flood Elevation in feet
-  materials: z.array(MaterialType),
+  elevationAboveBFE: z.number().min(0).optional(), // First floor above the BFE in feet; or give firstFloorElevation
+  firstFloorElevation: z.number().optional(),       // Surveyed first floor elevation in feet; or give siteElevation
+  currentBFE: z.number().optional(), // Site Base Flood Elevation in feet; looked up from the flood maps when omitted
+  floodElevations: FloodElevationsSchema.optional(), // e.g. 10-, 50-, 100- and 500-year elevations
+  materials: MaterialAssembliesSchema,
   roofMaterial: RoofMaterialType,
+  roofShape: RoofShape.optional(),                         // Defaults come from the scoring profile
+  roofToWallConnection: RoofToWallConnection.optional(),
+  openingProtection: OpeningProtection.optional(),
+  insulation: InsulationLevel.optional(),                  // Heat inputs also default from the profile
+  windowToWallRatio: z.number().min(0).max(1).optional(),
+  shading: ShadingLevel.optional(),
+  backupPower: BackupPower.optional(),
+  imperviousness: z.number().min(0).max(1).optional(),         // Share of the lot that is paved or roofed
+  lotGrading: LotGrading.optional(),
+  firstFloorHeightAboveGrade: z.number().min(0).optional(),   // Feet; defaults by foundation type
+  siteElevation: z.number().optional(),                       // Ground elevation in feet; cross-checked against the DEM
+  datum: VerticalDatum.optional(),                            // Datum elevations are compared and reported in (defaults to NAVD88)
+  elevationDatums: ElevationDatumsSchema.optional(),          // Datums of inputs surveyed or mapped in another datum
   mitigationFeatures: z.array(MitigationFeature),
   utilityProtection: z.boolean(),
-  location: z.object({
-    latitude: z.number(),
-    longitude: z.number(),
-  }),
+  floodZone: FloodZone.optional(), // Looked up from the flood maps when omitted
+  breakawayWalls: z.boolean().optional(), // Lower-level enclosure walls designed to break away
+  enclosureArea: z.number().min(0).optional(),        // Square feet of enclosed area below the first floor
+  floodVentOpeningArea: z.number().min(0).optional(), // Net open area of flood vents, square inches
+  yearBuilt: z.number().int().min(1700).max(new Date().getFullYear() + 10).optional(), // Planned year for new designs
+  occupancyType: OccupancyType.optional(), // Defaults to SINGLE_FAMILY
+  stories: z.number().int().min(1).max(100).optional(), // Above-grade stories, including the first floor
+  hasBasement: z.boolean().optional(),  // Floor below grade on any side
+  lowerLevelUse: LowerLevelUse.optional(), // Space below an elevated first floor
+  valuation: ValuationSchema.optional(),
+  location: LocationSchema,
   designDescription: z.string().optional(),
+  scoringProfile: ScoringProfileSelectionSchema.optional(),
+  scenario: SeaLevelScenario.optional(), // Primary scenario (defaults to the configured scenario)
+  scenarios: z.array(SeaLevelScenario).min(1).max(SeaLevelScenario.options.length).optional(), // Additional series
+  uncertainty: UncertaintyOptionsSchema.optional(), // Enables probabilistic P10/P50/P90 bands
+  warmingScenario: WarmingScenario.optional(), // Defaults to the configured warming scenario
+  horizon: ProjectionHorizonSchema.optional(), // Timeline years (e.g. a design life or mortgage term)
+}).superRefine((request, ctx) => {
+  // Without either, the first floor is the ground elevation plus its height above grade
+  if (request.elevationAboveBFE !== undefined && request.firstFloorElevation !== undefined) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['elevationAboveBFE'],
+      message: 'Give either elevationAboveBFE or firstFloorElevation',
+    });
+  } else if (request.elevationAboveBFE === undefined && request.firstFloorElevation === undefined &&
+    request.siteElevation === undefined) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['elevationAboveBFE'],
+      message: 'Give elevationAboveBFE, firstFloorElevation or siteElevation',
+    });
+  }
 });
 
-// Assessment Response Schema
-export const AssessmentResponseSchema = z.object({
-  currentScore: z.number(),
+// Score Components (parts of the weighted flood resilience score)
+export const ScoreComponent = z.enum([
+  'ELEVATION',
+  'FOUNDATION',
+  'STRUCTURAL_MATERIALS',
+  'ROOF_MATERIAL', // Only in profiles before 2.0.0
+  'MITIGATION_FEATURES',
+  'UTILITY_PROTECTION',
+]);
+
+// Wind Score Components (parts of the weighted wind resilience score)
+export const WindScoreComponent = z.enum([
+  'ROOF_MATERIAL',
+  'ROOF_SHAPE',
+  'ROOF_TO_WALL_CONNECTION',
+  'OPENING_PROTECTION',
+]);
+
+// Heat Score Components (parts of the weighted heat resilience score)
+export const HeatScoreComponent = z.enum([
+  'ROOF_REFLECTANCE',
+  'INSULATION',
+  'WINDOW_TO_WALL_RATIO',
+  'SHADING',
+  'BACKUP_POWER',
+]);
+
+// Score breakdown over a set of components (contributions plus adjustments sum to the total, clamped to 0-100)
+const scoreBreakdownSchema = <T extends [string, ...string[]]>(component: z.ZodEnum<T>) => z.object({
+  total: z.number(),
+  components: z.array(z.object({
+    component,
+    rawScore: z.number(),      // 0-100 sub-score
+    weight: z.number(),        // Effective weight in the total
+    contribution: z.number(),  // rawScore * weight
+  })),
+  adjustments: z.array(z.object({
+    rule: z.string(),          // Profile rule that applied
+    description: z.string(),
+    points: z.number(),        // Added to (or subtracted from) the weighted total
+  })),
+});
+
+// Flood Score Breakdown Schema
+export const ScoreBreakdownSchema = scoreBreakdownSchema(ScoreComponent);
+
+// How the mitigation features were scored under the profile's applicability and interaction rules
+export const MitigationEvaluationSchema = z.object({
+  score: z.number(),           // Mitigation sub-score after diminishing returns, synergies and the cap
+  applied: z.array(z.object({
+    feature: MitigationFeature,
+    basePoints: z.number(),    // Profile points for the feature on its own
+    points: z.number(),        // After diminishing returns
+  })),
+  ignored: z.array(z.object({  // Not applicable to this foundation or zone, so not scored
+    feature: MitigationFeature,
+    reason: z.string(),
+  })),
+  synergies: z.array(z.object({
+    features: z.array(MitigationFeature),
+    points: z.number(),
+    description: z.string(),
+  })),
+  conflicts: z.array(z.object({
+    features: z.array(MitigationFeature),
+    warning: z.string(),
+  })),
+});
+
+// Wind Score Breakdown Schema
+export const WindScoreBreakdownSchema = scoreBreakdownSchema(WindScoreComponent);
+
+// Wind Hazard Assessment
+export const WindAssessmentSchema = z.object({
+  designWindSpeed: z.number(), // Basic design wind speed at the site in mph
+  score: z.number(),
+  breakdown: WindScoreBreakdownSchema,
+  recommendations: z.array(z.string()),
+});
+
+// Heat Score Breakdown Schema
+export const HeatScoreBreakdownSchema = scoreBreakdownSchema(HeatScoreComponent);
+
+// Indoor Overheating Risk (from the heat score and the configured thresholds)
+export const OverheatingRisk = z.enum(['LOW', 'MODERATE', 'HIGH']);
+
+// Heat Timeline Entry Schema
+export const HeatTimelineEntrySchema = z.object({
+  year: z.number(),
+  warming: z.number(),         // Degrees F of summer warming since the baseline year
+  extremeHeatDays: z.number(), // Projected days per year with a heat index at or above 105 F
+  score: z.number(),
+  overheatingRisk: OverheatingRisk,
+  breakdown: HeatScoreBreakdownSchema,
+});
+
+// Extreme Heat Assessment
+export const HeatAssessmentSchema = z.object({
+  warmingScenario: WarmingScenario,
+  score: z.number(),           // Current heat score
+  timeline: z.array(HeatTimelineEntrySchema),
+  recommendations: z.array(z.string()),
+});
+
+// Flood, wind and weighted multi-hazard scores side by side
+export const HazardScoresSchema = z.object({
+  flood: z.number(),
+  wind: z.number(),
+  combined: z.number(),
+});
+
+// Flood Loss Estimate (dollars)
+export const LossEstimateSchema = z.object({
+  expectedAnnualLoss: z.number(),
+  cumulativeLoss: z.number(), // Sum of expected annual losses from the first timeline year through this year
+});
+
+// Rainfall Ponding at the Building for one Storm Return Period
+export const PluvialPondingSchema = z.object({
+  returnPeriod: z.number(),
+  depth: z.number(),               // Feet above grade
+  reachesFirstFloor: z.boolean(),
+});
+
+// Chance of Flooding Above the First Floor
+export const FloodProbabilitySchema = z.object({
+  annual: z.number(),       // Annual exceedance probability of the first floor
+  overMortgage: z.number(), // Probability of at least one such flood over a mortgage starting that year
+});
+
+// Timeline Entry Schema
+export const TimelineEntrySchema = z.object({
+  year: z.number(),
+  seaLevelRise: z.number(),   // Feet of sea level rise since the baseline year
+  subsidence: z.number(),     // Feet of local land subsidence since the baseline year
+  relativeRise: z.number(),   // Combined rise of water relative to the building
+  projectedBFE: z.number(),
+  firstFloorFloodProbability: FloodProbabilitySchema,
+  score: z.number(),
+  breakdown: ScoreBreakdownSchema,
+  pluvialPonding: z.array(PluvialPondingSchema),
+  loss: LossEstimateSchema.optional(), // Present when the request includes a valuation
+  recommendations: z.array(z.string()),
+});
+
+// Percentile Band (P10/P50/P90 across Monte Carlo samples)
+export const PercentileBandSchema = z.object({
+  p10: z.number(),
+  p50: z.number(),
+  p90: z.number(),
+});
+
+// Probabilistic Timeline Schema
+export const ProbabilisticTimelineSchema = z.object({
+  samples: z.number(),
+  seed: z.number(),
   timeline: z.array(z.object({
     year: z.number(),
-    projectedBFE: z.number(),
-    score: z.number(),
-    recommendations: z.array(z.string()),
+    score: PercentileBandSchema,
+    projectedBFE: PercentileBandSchema,
+  })),
+});
+
+// Where the flood zone and BFE used for scoring came from
+export const FloodHazardSource = z.enum(['REQUEST', 'FLOOD_MAP', 'NONE']);
+
+export const FloodHazardSummarySchema = z.object({
+  floodZone: FloodZone.optional(),
+  floodZoneSource: FloodHazardSource,
+  baseFloodElevation: z.number(),
+  baseFloodElevationSource: FloodHazardSource.exclude(['NONE']),
+  firstFloorElevation: z.number(),
+  elevationAboveBFE: z.number(),
+  datum: VerticalDatum, // Datum of the elevations above and of the timeline's projected BFEs
+});
+
+// Assessment Response Schema
+export const AssessmentResponseSchema = z.object({
+  currentScore: z.number(),   // Current flood score
+  scoreBreakdown: ScoreBreakdownSchema,
+  mitigation: MitigationEvaluationSchema,
+  floodHazard: FloodHazardSummarySchema,
+  hazardScores: HazardScoresSchema,
+  wind: WindAssessmentSchema,
+  heat: HeatAssessmentSchema,
+  scenario: SeaLevelScenario,
+  subsidenceRate: z.number(), // Local subsidence rate in mm/yr
+  timeline: z.array(TimelineEntrySchema),
+  scenarioTimelines: z.array(z.object({
+    scenario: SeaLevelScenario,
+    timeline: z.array(TimelineEntrySchema),
   })),
+  uncertainty: ProbabilisticTimelineSchema.optional(),
   overallRecommendations: z.array(z.string()),
+  warnings: z.array(z.string()), // Inputs that were ignored or look inconsistent
+  scoringProfile: z.object({
+    id: z.string(),
+    version: z.string(),
+  }),
 });
 
 // TypeScript Types
 export type FoundationType = z.infer<typeof FoundationType>;
 export type MaterialType = z.infer<typeof MaterialType>;
 export type RoofMaterialType = z.infer<typeof RoofMaterialType>;
+export type RoofShape = z.infer<typeof RoofShape>;
+export type RoofToWallConnection = z.infer<typeof RoofToWallConnection>;
+export type OpeningProtection = z.infer<typeof OpeningProtection>;
 export type MitigationFeature = z.infer<typeof MitigationFeature>;
+export type OccupancyType = z.infer<typeof OccupancyType>;
+export type LowerLevelUse = z.infer<typeof LowerLevelUse>;
+export type Valuation = z.infer<typeof ValuationSchema>;
+export type MaterialLocation = z.infer<typeof MaterialLocation>;
+export type MaterialAssembly = z.infer<typeof MaterialAssemblySchema>;
+export type ProjectionHorizon = z.infer<typeof ProjectionHorizonSchema>;
+export type FloodElevation = z.infer<typeof FloodElevationSchema>;
+export type FloodProbability = z.infer<typeof FloodProbabilitySchema>;
+export type LotGrading = z.infer<typeof LotGrading>;
+export type PluvialPonding = z.infer<typeof PluvialPondingSchema>;
+export type LossEstimate = z.infer<typeof LossEstimateSchema>;
+export type FloodZone = z.infer<typeof FloodZone>;
+export type VerticalDatum = z.infer<typeof VerticalDatum>;
+export type ElevationDatums = z.infer<typeof ElevationDatumsSchema>;
+export type Location = z.infer<typeof LocationSchema>;
+export type WarmingScenario = z.infer<typeof WarmingScenario>;
+export type InsulationLevel = z.infer<typeof InsulationLevel>;
+export type ShadingLevel = z.infer<typeof ShadingLevel>;
+export type BackupPower = z.infer<typeof BackupPower>;
+export type SeaLevelScenario = z.infer<typeof SeaLevelScenario>;
+export type TimelineEntry = z.infer<typeof TimelineEntrySchema>;
+export type UncertaintyOptions = z.infer<typeof UncertaintyOptionsSchema>;
+export type PercentileBand = z.infer<typeof PercentileBandSchema>;
+export type ProbabilisticTimeline = z.infer<typeof ProbabilisticTimelineSchema>;
+export type ScoreComponent = z.infer<typeof ScoreComponent>;
+export type ScoreBreakdown = z.infer<typeof ScoreBreakdownSchema>;
+export type WindScoreComponent = z.infer<typeof WindScoreComponent>;
+export type FloodHazardSummary = z.infer<typeof FloodHazardSummarySchema>;
+export type MitigationEvaluation = z.infer<typeof MitigationEvaluationSchema>;
+export type WindScoreBreakdown = z.infer<typeof WindScoreBreakdownSchema>;
+export type WindAssessment = z.infer<typeof WindAssessmentSchema>;
+export type HeatScoreComponent = z.infer<typeof HeatScoreComponent>;
+export type HeatScoreBreakdown = z.infer<typeof HeatScoreBreakdownSchema>;
+export type OverheatingRisk = z.infer<typeof OverheatingRisk>;
+export type HeatTimelineEntry = z.infer<typeof HeatTimelineEntrySchema>;
+export type HeatAssessment = z.infer<typeof HeatAssessmentSchema>;
+export type HazardScores = z.infer<typeof HazardScoresSchema>;
+export type ScoringProfileSelection = z.infer<typeof ScoringProfileSelectionSchema>;
 export type AssessmentRequest = z.infer<typeof AssessmentRequestSchema>;
 export type AssessmentResponse = z.infer<typeof AssessmentResponseSchema>;
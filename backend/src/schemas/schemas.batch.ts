@@ -0,0 +1,86 @@
+import { z } from 'zod';
+
+// Batch Input Formats
+export const BatchFormat = z.enum([
+  'CSV',   // Header row of AssessmentRequest field paths (e.g. location.latitude), one building per row
+  'JSONL', // One AssessmentRequest object per line
+]);
+
+// Batch Options (query parameters of POST /api/batch, flags of the batch CLI)
+export const BatchOptionsSchema = z.object({
+  format: BatchFormat,
+  enhanceRecommendations: z.boolean().default(false), // AI recommendations for every row (slow)
+});
+
+// A row that failed to parse, validate or score
+export const BatchRowErrorSchema = z.object({
+  row: z.number().int(),       // 1-based data row (the CSV header is not counted)
+  line: z.number().int(),      // 1-based line in the input where the row starts
+  id: z.string().optional(),
+  issues: z.array(z.object({
+    path: z.string(),          // Dotted AssessmentRequest field path, empty for the whole row
+    message: z.string(),
+  })),
+});
+
+// One scored building
+export const BatchResultSchema = z.object({
+  row: z.number().int(),
+  line: z.number().int(),
+  id: z.string().optional(),
+  currentScore: z.number(),    // Flood score
+  windScore: z.number(),
+  combinedScore: z.number(),
+  finalYear: z.number(),       // Last timeline year
+  finalScore: z.number(),
+  firstCriticalYear: z.number().nullable(), // First timeline year below the critical score
+  expectedAnnualLoss: z.number().optional(), // Current year, when the row includes a valuation
+  recommendations: z.array(z.string()),
+});
+
+// Portfolio Aggregates over the scored buildings
+export const BatchAggregatesSchema = z.object({
+  scoreDistribution: z.object({
+    min: z.number(),
+    median: z.number(),
+    mean: z.number(),
+    max: z.number(),
+    bins: z.array(z.object({   // Current score histogram; each bin includes its lower bound
+      from: z.number(),
+      to: z.number(),
+      count: z.number().int(),
+    })),
+  }),
+  belowCriticalByYear: z.array(z.object({
+    year: z.number(),
+    count: z.number().int(),   // Buildings scoring below the critical score that year
+    share: z.number(),         // Of the buildings whose timeline includes the year
+  })),
+  worstPerformers: z.array(z.object({ // Lowest current scores first
+    row: z.number().int(),
+    id: z.string().optional(),
+    currentScore: z.number(),
+    finalScore: z.number(),
+  })),
+});
+
+// Batch Response Schema
+export const BatchResponseSchema = z.object({
+  summary: z.object({
+    rows: z.number().int(),
+    assessed: z.number().int(),
+    failed: z.number().int(),
+  }),
+  criticalScore: z.number(),
+  results: z.array(BatchResultSchema),
+  errors: z.array(BatchRowErrorSchema),
+  aggregates: BatchAggregatesSchema.nullable(), // Null when no row could be scored
+});
+
+// TypeScript Types
+export type BatchFormat = z.infer<typeof BatchFormat>;
+export type BatchOptions = z.infer<typeof BatchOptionsSchema>;
+export type BatchRowError = z.infer<typeof BatchRowErrorSchema>;
+export type BatchResult = z.infer<typeof BatchResultSchema>;
+export type BatchAggregates = z.infer<typeof BatchAggregatesSchema>;
+export type BatchResponse = z.infer<typeof BatchResponseSchema>;
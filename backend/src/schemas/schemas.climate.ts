@@ -0,0 +1,148 @@
+import { z } from 'zod';
+import { gridDimensions } from '../lib/lib.grid';
+import { SeaLevelScenario, WarmingScenario } from './schemas.assessment';
+
+export const GridBoundsSchema = z.object({
+  north: z.number(),
+  south: z.number(),
+  west: z.number(),
+  east: z.number(),
+});
+
+// Reports an issue unless the rows of values exactly cover the grid bounds
+export const refineGridShape = (
+  grid: { bounds: z.infer<typeof GridBoundsSchema>; cellSize: number },
+  values: number[][],
+  path: string,
+  ctx: z.RefinementCtx
+) => {
+  const { rows, columns } = gridDimensions(grid.bounds, grid.cellSize);
+  if (values.length !== rows || values.some(row => row.length !== columns)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: [path],
+      message: `Expected ${rows} rows of ${columns} cells to cover the bounds`,
+    });
+  }
+};
+
+// Reports an issue unless the years are consecutive and every curve has one value per year
+const refineAnnualCurves = (
+  table: { years: number[]; scenarios: Record<string, Record<string, unknown>> },
+  valuesKey: string,
+  ctx: z.RefinementCtx
+) => {
+  table.years.forEach((year, index) => {
+    if (index > 0 && year !== table.years[index - 1] + 1) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['years', index], message: 'Years must be consecutive' });
+    }
+  });
+  for (const [scenario, curve] of Object.entries(table.scenarios)) {
+    if ((curve[valuesKey] as number[]).length !== table.years.length) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['scenarios', scenario, valuesKey],
+        message: `Expected ${table.years.length} values, one per year`,
+      });
+    }
+  }
+};
+
+// Sea Level Rise Scenario Table (annual values in feet above the baseline year)
+export const SeaLevelRiseTableSchema = z.object({
+  description: z.string().optional(),
+  units: z.literal('ft'),
+  baselineYear: z.number().int(),
+  years: z.array(z.number().int()).min(2),
+  scenarios: z.object(
+    Object.fromEntries(SeaLevelScenario.options.map(scenario => [
+      scenario,
+      z.object({
+        label: z.string(),
+        riseByYear: z.array(z.number()),
+      }),
+    ])) as {
+      [K in SeaLevelScenario]: z.ZodObject<{ label: z.ZodString; riseByYear: z.ZodArray<z.ZodNumber> }>;
+    }
+  ),
+}).superRefine((table, ctx) => refineAnnualCurves(table, 'riseByYear', ctx));
+
+// Warming Scenario Table (annual summer warming in degrees F above the baseline year)
+export const WarmingScenarioTableSchema = z.object({
+  description: z.string().optional(),
+  units: z.literal('F'),
+  baselineYear: z.number().int(),
+  baselineExtremeHeatDays: z.number().min(0),  // Days per year with a heat index at or above 105 F
+  extremeHeatDaysPerDegree: z.number().min(0), // Additional extreme heat days per degree of warming
+  years: z.array(z.number().int()).min(2),
+  scenarios: z.object(
+    Object.fromEntries(WarmingScenario.options.map(scenario => [
+      scenario,
+      z.object({
+        label: z.string(),
+        warmingByYear: z.array(z.number()),
+      }),
+    ])) as {
+      [K in WarmingScenario]: z.ZodObject<{ label: z.ZodString; warmingByYear: z.ZodArray<z.ZodNumber> }>;
+    }
+  ),
+}).superRefine((table, ctx) => refineAnnualCurves(table, 'warmingByYear', ctx));
+
+// Rainfall Intensity-Duration-Frequency Table (depths in inches; rows follow returnPeriods, columns durations)
+export const RainfallIdfTableSchema = z.object({
+  description: z.string().optional(),
+  units: z.literal('in'),
+  durations: z.array(z.number().positive()).min(1),     // Storm durations in hours
+  returnPeriods: z.array(z.number().positive()).min(1), // Years, most frequent storm first
+  depths: z.array(z.array(z.number().min(0))),
+  upliftPerDegree: z.number().min(0),  // Fractional increase in rainfall depth per degree F of warming
+  drainageCapacity: z.object({         // Inches of rainfall the drainage system removes
+    firstHour: z.number().min(0),
+    perAdditionalHour: z.number().min(0),
+  }),
+  pondingConcentration: z.number().positive(), // Contributing area per unit of ponding area
+}).superRefine((table, ctx) => {
+  if (table.depths.length !== table.returnPeriods.length ||
+    table.depths.some(row => row.length !== table.durations.length)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['depths'],
+      message: `Expected ${table.returnPeriods.length} rows of ${table.durations.length} depths`,
+    });
+  }
+  // Scoring takes the first storm whose ponding reaches the first floor as the most frequent one
+  if (table.returnPeriods.some((period, index) => index > 0 && period <= table.returnPeriods[index - 1])) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['returnPeriods'],
+      message: 'Return periods must be strictly increasing',
+    });
+  }
+});
+
+// Subsidence Rate Grid (regular lat/lon grid, row 0 at the northern edge)
+export const SubsidenceGridSchema = z.object({
+  description: z.string().optional(),
+  units: z.literal('mm/yr'),
+  bounds: GridBoundsSchema,
+  cellSize: z.number().positive(), // Degrees
+  defaultRate: z.number(),         // Used for locations outside the grid
+  rates: z.array(z.array(z.number())).min(1),
+}).superRefine((grid, ctx) => refineGridShape(grid, grid.rates, 'rates', ctx));
+
+// Design Wind Speed Grid (basic wind speeds on a regular lat/lon grid, row 0 at the northern edge)
+export const DesignWindSpeedGridSchema = z.object({
+  description: z.string().optional(),
+  units: z.literal('mph'),
+  bounds: GridBoundsSchema,
+  cellSize: z.number().positive(), // Degrees
+  defaultSpeed: z.number().positive(), // Used for locations outside the grid
+  speeds: z.array(z.array(z.number().positive())).min(1),
+}).superRefine((grid, ctx) => refineGridShape(grid, grid.speeds, 'speeds', ctx));
+
+// TypeScript Types
+export type SeaLevelRiseTable = z.infer<typeof SeaLevelRiseTableSchema>;
+export type WarmingScenarioTable = z.infer<typeof WarmingScenarioTableSchema>;
+export type RainfallIdfTable = z.infer<typeof RainfallIdfTableSchema>;
+export type SubsidenceGrid = z.infer<typeof SubsidenceGridSchema>;
+export type DesignWindSpeedGrid = z.infer<typeof DesignWindSpeedGridSchema>;
@@ -0,0 +1,55 @@
+import { z } from 'zod';
+import {
+  AssessmentRequestSchema,
+  ProjectionHorizonSchema,
+  ScoreBreakdownSchema,
+  ScoreComponent,
+  SeaLevelScenario,
+  TimelineEntrySchema,
+} from './schemas.assessment';
+
+// Comparison Request Schema
+export const ComparisonRequestSchema = z.object({
+  variants: z.array(z.object({
+    label: z.string().min(1).optional(), // Defaults to "Option <n>"
+    assessment: AssessmentRequestSchema,
+  })).min(2).max(5),
+  // Shared timeline years so the variants line up (defaults to the first variant's horizon)
+  horizon: ProjectionHorizonSchema.optional(),
+}).refine(request => {
+  const labels = request.variants.map((variant, index) => variant.label ?? `Option ${index + 1}`);
+  return new Set(labels).size === labels.length;
+}, { path: ['variants'], message: 'Variant labels must be unique' });
+
+// One design option, with score differences against the first variant (the baseline)
+export const ComparisonVariantSchema = z.object({
+  label: z.string(),
+  currentScore: z.number(),
+  scoreDelta: z.number(),            // currentScore minus the baseline's
+  scoreBreakdown: ScoreBreakdownSchema,
+  componentDeltas: z.array(z.object({
+    component: ScoreComponent,
+    rawScoreDelta: z.number(),
+    contributionDelta: z.number(),
+  })),
+  adjustmentPointsDelta: z.number(), // Difference in the sum of rule adjustments
+  scenario: SeaLevelScenario,
+  timeline: z.array(TimelineEntrySchema),
+  firstCriticalYear: z.number().nullable(), // First timeline year below the critical score
+});
+
+// Comparison Response Schema
+export const ComparisonResponseSchema = z.object({
+  years: z.array(z.number()),  // Timeline years shared by every variant
+  criticalScore: z.number(),
+  variants: z.array(ComparisonVariantSchema),
+  firstCritical: z.object({    // The option(s) that drop below the critical score earliest
+    year: z.number(),
+    variants: z.array(z.string()),
+  }).nullable(),
+});
+
+// TypeScript Types
+export type ComparisonRequest = z.infer<typeof ComparisonRequestSchema>;
+export type ComparisonVariant = z.infer<typeof ComparisonVariantSchema>;
+export type ComparisonResponse = z.infer<typeof ComparisonResponseSchema>;
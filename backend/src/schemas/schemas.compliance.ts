@@ -0,0 +1,111 @@
+import { z } from 'zod';
+import { AssessmentRequestSchema, FloodZone, FoundationType, OccupancyType } from './schemas.assessment';
+
+// Compliance Rule Types (one evaluator per type in ComplianceService)
+export const ComplianceRuleType = z.enum([
+  'FREEBOARD',
+  'HEIGHT_ABOVE_GRADE',
+  'FOUNDATION',
+  'BREAKAWAY_WALLS',
+  'FLOOD_OPENINGS',
+]);
+
+// Fields shared by every rule. A rule only applies in the listed zones and, when given, occupancies.
+const RuleBase = {
+  id: z.string().regex(/^[a-z0-9-]+$/, 'Rule id must be lowercase kebab-case'),
+  title: z.string(),
+  citation: z.string(),
+  zones: z.array(FloodZone).min(1),
+  occupancies: z.array(OccupancyType).min(1).optional(),
+};
+
+// Compliance Rule
+export const ComplianceRuleSchema = z.discriminatedUnion('type', [
+  z.object({
+    ...RuleBase,
+    type: z.literal('FREEBOARD'),
+    minimumFreeboard: z.number().min(0), // Feet of first floor above the BFE
+  }),
+  z.object({
+    ...RuleBase,
+    type: z.literal('HEIGHT_ABOVE_GRADE'),
+    minimumHeight: z.number().min(0),    // Feet of first floor above grade
+  }),
+  z.object({
+    ...RuleBase,
+    type: z.literal('FOUNDATION'),
+    allowedFoundations: z.array(FoundationType).min(1),
+  }),
+  z.object({
+    ...RuleBase,
+    type: z.literal('BREAKAWAY_WALLS'),
+  }),
+  z.object({
+    ...RuleBase,
+    type: z.literal('FLOOD_OPENINGS'),
+    openingAreaPerSqFt: z.number().positive(), // Square inches of net opening per square foot of enclosure
+  }),
+]);
+
+// Compliance Rule Set (data/compliance)
+export const ComplianceRuleSetSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/, 'Rule set id must be lowercase kebab-case'),
+  version: z.string().regex(/^\d+\.\d+\.\d+$/, 'Rule set version must be semantic (major.minor.patch)'),
+  name: z.string(),
+  description: z.string().optional(),
+  rules: z.array(ComplianceRuleSchema).min(1),
+}).refine(ruleSet => new Set(ruleSet.rules.map(rule => rule.id)).size === ruleSet.rules.length, {
+  path: ['rules'],
+  message: 'Rule ids must be unique within a rule set',
+});
+
+// Compliance Request Schema
+export const ComplianceRequestSchema = z.object({
+  assessment: AssessmentRequestSchema,
+  ruleSets: z.array(z.string()).min(1).optional(), // Rule set ids (defaults to every rule set)
+});
+
+// Compliance Response Schema
+export const ComplianceStatus = z.enum([
+  'PASS',
+  'FAIL',
+  'NOT_APPLICABLE', // Outside the rule's zones, occupancies or building configuration
+  'MISSING_INPUT',  // The request lacks an input the rule needs
+]);
+
+export const ComplianceRuleResultSchema = z.object({
+  ruleId: z.string(),
+  type: ComplianceRuleType,
+  title: z.string(),
+  status: ComplianceStatus,
+  message: z.string(),
+  citation: z.string(),
+});
+
+export const ComplianceRuleSetResultSchema = z.object({
+  id: z.string(),
+  version: z.string(),
+  name: z.string(),
+  compliant: z.boolean(), // No failed rules (rules with missing inputs are not counted as failures)
+  results: z.array(ComplianceRuleResultSchema),
+});
+
+export const ComplianceResponseSchema = z.object({
+  compliant: z.boolean(),
+  summary: z.object(
+    Object.fromEntries(ComplianceStatus.options.map(status => [status, z.number().int().min(0)])) as {
+      [K in ComplianceStatus]: z.ZodNumber;
+    }
+  ),
+  ruleSets: z.array(ComplianceRuleSetResultSchema),
+});
+
+// TypeScript Types
+export type ComplianceRule = z.infer<typeof ComplianceRuleSchema>;
+export type ComplianceRuleType = z.infer<typeof ComplianceRuleType>;
+export type ComplianceRuleSet = z.infer<typeof ComplianceRuleSetSchema>;
+export type ComplianceRequest = z.infer<typeof ComplianceRequestSchema>;
+export type ComplianceStatus = z.infer<typeof ComplianceStatus>;
+export type ComplianceRuleResult = z.infer<typeof ComplianceRuleResultSchema>;
+export type ComplianceRuleSetResult = z.infer<typeof ComplianceRuleSetResultSchema>;
+export type ComplianceResponse = z.infer<typeof ComplianceResponseSchema>;
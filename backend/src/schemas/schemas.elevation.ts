@@ -0,0 +1,75 @@
+import { z } from 'zod';
+import { GridBoundsSchema, refineGridShape } from './schemas.climate';
+import { VerticalDatum } from './schemas.assessment';
+
+// Geodetic datums the offset grids convert between
+export const GeodeticDatum = z.enum([
+  'NAVD88',
+  'NGVD29',
+]);
+
+export const ElevationUnits = z.enum([
+  'FEET',
+  'METERS',
+]);
+
+// Digital Elevation Model Catalog (data/elevation/models.json); rasters are listed in lookup order
+export const ElevationModelCatalogSchema = z.object({
+  description: z.string().optional(),
+  models: z.array(z.object({
+    file: z.string().regex(/\.(asc|tiff?)$/i, 'Expected an ESRI ASCII grid (.asc) or GeoTIFF (.tif)'), // Relative to the catalog
+    datum: VerticalDatum,   // Vertical datum of the raster values
+    units: ElevationUnits,  // Units of the raster values (3DEP rasters are in meters)
+    description: z.string().optional(),
+  })).min(1),
+});
+
+// Vertical Datum Table (data/datums/*.json): an NGVD29 to NAVD88 offset grid (NAVD88 = NGVD29 + offset,
+// in feet, row 0 at the northern edge, interpolated bilinearly) and the zeros of local gauge datums
+export const DatumTableSchema = z.object({
+  description: z.string().optional(),
+  ngvd29ToNavd88: z.object({
+    bounds: GridBoundsSchema,
+    cellSize: z.number().positive(),
+    defaultOffset: z.number(),     // Used for locations outside the grid
+    offsets: z.array(z.array(z.number())),
+  }).superRefine((grid, ctx) => refineGridShape(grid, grid.offsets, 'offsets', ctx)),
+  gaugeDatums: z.array(z.object({
+    id: VerticalDatum,
+    name: z.string(),
+    referenceDatum: GeodeticDatum,
+    zeroElevation: z.number(),    // Feet; elevation of the gauge zero in the reference datum
+  })),
+}).superRefine((table, ctx) => {
+  table.gaugeDatums.forEach((gauge, index) => {
+    const duplicate = table.gaugeDatums.findIndex(other => other.id === gauge.id) !== index;
+    if (duplicate || GeodeticDatum.safeParse(gauge.id).success) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['gaugeDatums', index, 'id'],
+        message: `Gauge datum id ${gauge.id} is already defined`,
+      });
+    }
+  });
+});
+
+// Ground Elevation Lookup Request (query parameters of GET /api/elevation)
+export const ElevationLookupRequestSchema = z.object({
+  latitude: z.coerce.number().min(-90).max(90),
+  longitude: z.coerce.number().min(-180).max(180),
+});
+
+// Ground elevation at a point
+export const ElevationLookupSchema = z.object({
+  found: z.boolean(),                 // The point falls inside a raster with data
+  elevation: z.number().optional(),   // Feet, bilinearly interpolated
+  datum: VerticalDatum.optional(),
+  dataset: z.string().optional(),     // Raster file the elevation came from
+});
+
+// TypeScript Types
+export type GeodeticDatum = z.infer<typeof GeodeticDatum>;
+export type DatumTable = z.infer<typeof DatumTableSchema>;
+export type ElevationUnits = z.infer<typeof ElevationUnits>;
+export type ElevationModelCatalog = z.infer<typeof ElevationModelCatalogSchema>;
+export type ElevationLookup = z.infer<typeof ElevationLookupSchema>;
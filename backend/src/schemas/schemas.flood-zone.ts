@@ -0,0 +1,40 @@
+import { z } from 'zod';
+import { FloodZone, VerticalDatum } from './schemas.assessment';
+
+// GeoJSON position: longitude, latitude and an ignored elevation
+const PositionSchema = z.tuple([z.number(), z.number()]).rest(z.number());
+const LinearRingSchema = z.array(PositionSchema).min(4);
+
+// Flood Hazard Area Map (data/flood-zones/*.geojson, e.g. an NFHL S_FLD_HAZ_AR export)
+export const FloodHazardMapSchema = z.object({
+  type: z.literal('FeatureCollection'),
+  name: z.string().optional(),
+  features: z.array(z.object({
+    type: z.literal('Feature'),
+    geometry: z.discriminatedUnion('type', [
+      z.object({ type: z.literal('Polygon'), coordinates: z.array(LinearRingSchema).min(1) }),
+      z.object({ type: z.literal('MultiPolygon'), coordinates: z.array(z.array(LinearRingSchema).min(1)).min(1) }),
+    ]).nullable(),
+    properties: z.record(z.unknown()).nullable(),
+  })),
+});
+
+// Flood Zone Lookup Request (query parameters of GET /api/flood-zones/lookup)
+export const FloodZoneLookupRequestSchema = z.object({
+  latitude: z.coerce.number().min(-90).max(90),
+  longitude: z.coerce.number().min(-180).max(180),
+});
+
+// Mapped flood hazard at a point
+export const FloodZoneLookupSchema = z.object({
+  found: z.boolean(),                  // The point falls inside a mapped flood hazard area
+  floodZone: FloodZone.optional(),     // Mapped zone as scored (aliases applied); absent for unscored zones
+  mappedZone: z.string().optional(),   // Zone as labeled on the map, e.g. AH or OPEN WATER
+  staticBFE: z.number().optional(),    // Feet; absent where the map has no static BFE
+  datum: VerticalDatum.optional(),     // Datum of the static BFE
+  dataset: z.string().optional(),      // Map file the area came from
+});
+
+// TypeScript Types
+export type FloodHazardMap = z.infer<typeof FloodHazardMapSchema>;
+export type FloodZoneLookup = z.infer<typeof FloodZoneLookupSchema>;
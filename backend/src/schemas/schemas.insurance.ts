@@ -0,0 +1,132 @@
+import { z } from 'zod';
+import {
+  AssessmentRequestSchema,
+  FloodZone,
+  FoundationType,
+  OccupancyType,
+  SeaLevelScenario,
+} from './schemas.assessment';
+import { RetrofitSchema } from './schemas.retrofit';
+
+const Fraction = z.number().min(0).max(1);
+
+// Annual premium per $100 of coverage for first floors at or above minElevationDifference feet
+// relative to the BFE. The last row has no minimum and applies to everything below the row above it.
+const ZoneRatesSchema = z.array(z.object({
+  minElevationDifference: z.number().optional(),
+  building: z.number().min(0),
+  contents: z.number().min(0),
+})).min(1).superRefine((rows, ctx) => {
+  rows.forEach((row, index) => {
+    const isLast = index === rows.length - 1;
+    if (isLast !== (row.minElevationDifference === undefined)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [index, 'minElevationDifference'],
+        message: isLast
+          ? 'The last rate row must omit minElevationDifference'
+          : 'Every rate row except the last needs minElevationDifference',
+      });
+    }
+    const previous = rows[index - 1]?.minElevationDifference;
+    if (row.minElevationDifference !== undefined && previous !== undefined && row.minElevationDifference >= previous) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [index, 'minElevationDifference'],
+        message: 'Rate rows must be ordered from highest to lowest elevation difference',
+      });
+    }
+  });
+});
+
+// NFIP Rating Tables (data/insurance)
+export const InsuranceRatingTableSchema = z.object({
+  description: z.string().optional(),
+  currency: z.literal('USD'),
+  coverageLimits: z.object({ // Maximum NFIP coverage in dollars
+    building: z.number().positive(),
+    contents: z.number().positive(),
+  }),
+  zoneRates: z.object(
+    Object.fromEntries(FloodZone.options.map(zone => [zone, ZoneRatesSchema])) as {
+      [K in FloodZone]: typeof ZoneRatesSchema;
+    }
+  ),
+  foundationFactors: z.object( // Multiplier on the building and contents premium
+    Object.fromEntries(FoundationType.options.map(foundation => [foundation, z.number().positive()])) as {
+      [K in FoundationType]: z.ZodNumber;
+    }
+  ),
+  mitigationCredits: z.object({ // Discounts on the building premium
+    floodVents: z.object({
+      discount: Fraction,
+      foundations: z.array(FoundationType).min(1), // Foundations with an enclosure the vents can serve
+    }),
+    elevatedMachinery: z.object({
+      discount: Fraction,
+    }),
+  }),
+  fees: z.object({
+    iccPremium: z.number().min(0),            // Increased Cost of Compliance coverage, dollars
+    reserveFundAssessment: Fraction,          // Share of the premium
+    federalPolicyFee: z.number().min(0),      // Dollars
+    hfiaaSurcharge: z.object(                 // Dollars, by occupancy
+      Object.fromEntries(OccupancyType.options.map(occupancy => [occupancy, z.number().min(0)])) as {
+        [K in OccupancyType]: z.ZodNumber;
+      }
+    ),
+  }),
+  band: z.object({ // Multipliers on the estimate for the low and high ends of the premium band
+    low: z.number().positive().max(1),
+    high: z.number().min(1),
+  }),
+});
+
+// Insurance Request Schema
+export const InsuranceRequestSchema = z.object({
+  assessment: AssessmentRequestSchema,
+}).refine(request => request.assessment.valuation !== undefined, {
+  path: ['assessment', 'valuation'],
+  message: 'Building and contents values are required to estimate flood insurance premiums',
+});
+
+// Insurance Response Schema
+export const PremiumBandSchema = z.object({
+  low: z.number(),
+  estimate: z.number(),
+  high: z.number(),
+});
+
+export const InsuranceTimelineEntrySchema = z.object({
+  year: z.number(),
+  elevationDifference: z.number(), // First floor relative to the projected BFE, feet
+  premium: PremiumBandSchema,
+});
+
+export const RetrofitPremiumSchema = z.object({
+  retrofit: RetrofitSchema,
+  description: z.string(),
+  premium: PremiumBandSchema,
+  annualSavings: z.number(), // Current estimate minus the estimate after the retrofit
+});
+
+export const InsuranceResponseSchema = z.object({
+  floodZone: FloodZone,   // Zone used for rating (the configured default when the request omits one)
+  scenario: SeaLevelScenario,
+  coverage: z.object({
+    building: z.number(),
+    contents: z.number(),
+  }),
+  current: PremiumBandSchema,
+  timeline: z.array(InsuranceTimelineEntrySchema),
+  retrofitSavings: z.array(RetrofitPremiumSchema),
+});
+
+// TypeScript Types
+export type ZoneRates = z.infer<typeof ZoneRatesSchema>;
+export type InsuranceRatingTable = z.infer<typeof InsuranceRatingTableSchema>;
+export type InsuranceRequest = z.infer<typeof InsuranceRequestSchema>;
+export type PremiumBand = z.infer<typeof PremiumBandSchema>;
+export type InsuranceTimelineEntry = z.infer<typeof InsuranceTimelineEntrySchema>;
+export type RetrofitPremium = z.infer<typeof RetrofitPremiumSchema>;
+export type InsuranceResponse = z.infer<typeof InsuranceResponseSchema>;
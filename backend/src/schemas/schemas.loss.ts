@@ -0,0 +1,56 @@
+import { z } from 'zod';
+import { FoundationType, MitigationFeature, OccupancyType } from './schemas.assessment';
+
+// Curve points: [depth in feet above the first floor, damage as a fraction of value]
+const DamageCurveSchema = z.array(z.tuple([z.number(), z.number().min(0).max(1)])).min(2)
+  .refine(
+    points => points.every((point, index) => index === 0 || point[0] > points[index - 1][0]),
+    { message: 'Curve depths must be strictly increasing' }
+  );
+
+// Fractional damage reduction of a mitigation measure, effective up to maxDepth above the first floor
+const DamageReductionSchema = z.object({
+  building: z.number().min(0).max(1),
+  contents: z.number().min(0).max(1),
+  maxDepth: z.number(),
+});
+
+// Depth-Damage Curve Table
+export const DepthDamageTableSchema = z.object({
+  description: z.string().optional(),
+  depthUnits: z.literal('ft'),
+  curves: z.array(z.object({
+    id: z.string(),
+    occupancies: z.array(OccupancyType).min(1),
+    foundations: z.array(FoundationType).min(1),
+    building: DamageCurveSchema,
+    contents: DamageCurveSchema,
+  })),
+  damageReductions: z.object({
+    ...Object.fromEntries(MitigationFeature.options.map(feature => [feature, DamageReductionSchema])) as {
+      [K in MitigationFeature]: typeof DamageReductionSchema;
+    },
+    UTILITY_PROTECTION: DamageReductionSchema,
+  }),
+}).superRefine((table, ctx) => {
+  // Every occupancy/foundation combination needs exactly one curve
+  for (const occupancy of OccupancyType.options) {
+    for (const foundation of FoundationType.options) {
+      const matches = table.curves.filter(curve =>
+        curve.occupancies.includes(occupancy) && curve.foundations.includes(foundation)
+      );
+      if (matches.length !== 1) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['curves'],
+          message: `Expected one curve for ${occupancy} on ${foundation}, found ${matches.length}`,
+        });
+      }
+    }
+  }
+});
+
+// TypeScript Types
+export type DamageCurve = z.infer<typeof DamageCurveSchema>;
+export type DamageReduction = z.infer<typeof DamageReductionSchema>;
+export type DepthDamageTable = z.infer<typeof DepthDamageTableSchema>;
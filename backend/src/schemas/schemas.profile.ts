@@ -0,0 +1,270 @@
+import { z } from 'zod';
+import {
+  FloodZone,
+  FoundationType,
+  MaterialType,
+  MaterialLocation,
+  RoofMaterialType,
+  RoofShape,
+  RoofToWallConnection,
+  OpeningProtection,
+  InsulationLevel,
+  ShadingLevel,
+  BackupPower,
+  LotGrading,
+  LowerLevelUse,
+  MitigationFeature,
+  OccupancyType,
+} from './schemas.assessment';
+
+const ComponentScore = z.number().min(0).max(100);
+
+// Builds an object schema with one 0-100 score per enum member, so every option must be scored
+const scoreTable = <T extends [string, ...string[]]>(keys: z.ZodEnum<T>) =>
+  z.object(
+    Object.fromEntries(keys.options.map(key => [key, ComponentScore])) as {
+      [K in T[number]]: typeof ComponentScore;
+    }
+  );
+
+const Weight = z.number().min(0).max(1);
+
+const sumsToOne = (weights: Record<string, number>) =>
+  Math.abs(Object.values(weights).reduce((sum, weight) => sum + weight, 0) - 1) < 1e-6;
+
+// Scoring Weights (must sum to 1)
+export const ScoringWeightsSchema = z.object({
+  elevation: Weight,
+  foundationType: Weight,
+  materials: Weight,
+  mitigationFeatures: Weight,
+  utilityProtection: Weight,
+}).refine(sumsToOne, { message: 'Scoring weights must sum to 1' });
+
+// Wind Scoring (component weights must sum to 1)
+export const WindScoringSchema = z.object({
+  weights: z.object({
+    roofMaterial: Weight,
+    roofShape: Weight,
+    roofToWallConnection: Weight,
+    openingProtection: Weight,
+  }).refine(sumsToOne, { message: 'Wind weights must sum to 1' }),
+  roofMaterialScores: scoreTable(RoofMaterialType),
+  roofShapeScores: scoreTable(RoofShape),
+  roofToWallConnectionScores: scoreTable(RoofToWallConnection),
+  openingProtectionScores: scoreTable(OpeningProtection),
+  defaults: z.object({ // Assumed when the request omits a wind input
+    roofShape: RoofShape,
+    roofToWallConnection: RoofToWallConnection,
+    openingProtection: OpeningProtection,
+  }),
+  designWindSpeed: z.object({
+    referenceSpeed: z.number().positive(), // mph; no penalty at or below this speed
+    pointsPerMph: z.number().min(0),       // Deducted per mph above the reference speed
+    maxPenalty: z.number().min(0),
+  }),
+});
+
+// Heat Scoring (component weights must sum to 1)
+export const HeatScoringSchema = z.object({
+  weights: z.object({
+    roofReflectance: Weight,
+    insulation: Weight,
+    windowToWallRatio: Weight,
+    shading: Weight,
+    backupPower: Weight,
+  }).refine(sumsToOne, { message: 'Heat weights must sum to 1' }),
+  roofSolarReflectance: z.object(
+    Object.fromEntries(RoofMaterialType.options.map(key => [key, Weight])) as {
+      [K in RoofMaterialType]: typeof Weight;
+    }
+  ),
+  fullScoreReflectance: z.number().positive().max(1), // Reflectance at which the roof sub-score reaches 100
+  windowToWallRatio: z.object({
+    fullScoreRatio: Weight, // At or below: sub-score 100
+    zeroScoreRatio: Weight, // At or above: sub-score 0
+  }).refine(ratio => ratio.zeroScoreRatio > ratio.fullScoreRatio, {
+    message: 'zeroScoreRatio must exceed fullScoreRatio',
+  }),
+  insulationScores: scoreTable(InsulationLevel),
+  shadingScores: scoreTable(ShadingLevel),
+  backupPowerScores: scoreTable(BackupPower),
+  defaults: z.object({ // Assumed when the request omits a heat input
+    insulation: InsulationLevel,
+    windowToWallRatio: Weight,
+    shading: ShadingLevel,
+    backupPower: BackupPower,
+  }),
+  exposure: z.object({
+    referenceExtremeHeatDays: z.number().min(0), // No penalty at or below this many days per year
+    pointsPerExtremeHeatDay: z.number().min(0),  // Before scaling by the building's vulnerability
+    maxPenalty: z.number().min(0),
+  }),
+});
+
+// Rainfall (Pluvial) Flooding
+export const PluvialScoringSchema = z.object({
+  runoffCoefficient: z.object({ // Share of rainfall that runs off pervious and impervious surfaces
+    pervious: Weight,
+    impervious: Weight,
+  }),
+  gradingFactors: z.object( // Multiplier on the ponding depth reaching the building
+    Object.fromEntries(LotGrading.options.map(key => [key, z.number().min(0)])) as {
+      [K in LotGrading]: z.ZodNumber;
+    }
+  ),
+  defaults: z.object({ // Assumed when the request omits a site input
+    imperviousness: Weight,
+    lotGrading: LotGrading,
+    firstFloorHeightAboveGrade: z.object(
+      Object.fromEntries(FoundationType.options.map(key => [key, z.number().min(0)])) as {
+        [K in FoundationType]: z.ZodNumber;
+      }
+    ),
+  }),
+  // Points for ponding that reaches the first floor, by the most frequent storm that causes it
+  // (empty: ponding depths are reported but not scored)
+  floodedFloorPoints: z.array(z.object({
+    returnPeriod: z.number().positive(),
+    points: z.number(),
+  })),
+});
+
+// A pair of distinct mitigation features
+const MitigationPair = z.tuple([MitigationFeature, MitigationFeature])
+  .refine(([first, second]) => first !== second, { message: 'A mitigation pair needs two different features' });
+
+// Where a mitigation feature is relevant; outside its foundations or zones it scores nothing
+const MitigationApplicabilitySchema = z.object({
+  foundations: z.array(FoundationType).min(1).optional(),
+  zones: z.array(FloodZone).min(1).optional(), // Only checked when the request gives a flood zone
+  reason: z.string(),                          // Why the feature is ignored outside them
+});
+
+// Mitigation Feature Rules (features without an applicability rule apply everywhere)
+export const MitigationRulesSchema = z.object({
+  applicability: z.object(
+    Object.fromEntries(MitigationFeature.options.map(key => [key, MitigationApplicabilitySchema.optional()])) as {
+      [K in MitigationFeature]: z.ZodOptional<typeof MitigationApplicabilitySchema>;
+    }
+  ).default({}),
+  // Features are counted from the highest scoring down, each at this fraction of the one before
+  diminishingReturns: Weight,
+  synergies: z.array(z.object({ // Pairs that reinforce each other add points to the mitigation sub-score
+    features: MitigationPair,
+    points: z.number().min(0),
+    description: z.string(),
+  })),
+  conflicts: z.array(z.object({ // Pairs that work against each other produce a warning
+    features: MitigationPair,
+    warning: z.string(),
+  })),
+});
+
+// Scoring Profile Schema. Sections added after a profile's first release default to values that
+// leave the score unchanged, so every released version keeps loading and scoring as it did.
+export const ScoringProfileSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/, 'Profile id must be lowercase kebab-case'),
+  version: z.string().regex(/^\d+\.\d+\.\d+$/, 'Profile version must be semantic (major.minor.patch)'),
+  name: z.string(),
+  description: z.string().optional(),
+  weights: ScoringWeightsSchema,
+  // The method defaults to FREEBOARD, the only method before 3.0.0
+  elevation: z.preprocess(elevation => typeof elevation === 'object' && elevation !== null && !('method' in elevation)
+    ? { method: 'FREEBOARD', ...elevation }
+    : elevation, z.discriminatedUnion('method', [
+    z.object({
+      method: z.literal('FREEBOARD'),
+      fullScoreFreeboard: z.number().positive(), // Feet above BFE at which the elevation score reaches 100
+    }),
+    z.object({
+      // Log-linear in the first floor's annual exceedance probability
+      method: z.literal('EXCEEDANCE'),
+      fullScoreProbability: z.number().gt(0).lt(1), // At or below: sub-score 100
+      zeroScoreProbability: z.number().gt(0).lt(1), // At or above: sub-score 0
+    }),
+  ]).refine(
+    elevation => elevation.method !== 'EXCEEDANCE' || elevation.zeroScoreProbability > elevation.fullScoreProbability,
+    { message: 'zeroScoreProbability must exceed fullScoreProbability' }
+  )),
+  foundationScores: scoreTable(FoundationType),
+  materialScores: scoreTable(MaterialType),
+  // Profiles before 2.0.0 scored the roof as this share of the materials weight (wind now scores roofs)
+  roofShareOfMaterials: Weight.optional(),
+  roofMaterialScores: scoreTable(RoofMaterialType).optional(),
+  // Relative weight of each material share by location, so materials below the flood line count more
+  materialLocationWeights: z.object(
+    Object.fromEntries(MaterialLocation.options.map(key => [key, z.number().positive()])) as {
+      [K in MaterialLocation]: z.ZodNumber;
+    }
+  ).default({ BELOW_DFE: 1, ABOVE_DFE: 1, THROUGHOUT: 1 }),
+  mitigationFeatureScores: scoreTable(MitigationFeature),
+  mitigationScoreCap: ComponentScore,
+  mitigationRules: MitigationRulesSchema.default({ diminishingReturns: 1, synergies: [], conflicts: [] }),
+  floodZoneRules: z.object({
+    coastalHighHazardZones: z.array(FloodZone),
+    slabInCoastalZonePoints: z.number(),        // Slab-on-grade construction in a V zone
+    enclosureWithoutBreakawayPoints: z.number(), // Elevated V-zone building without breakaway walls
+    zoneXMinimumElevationScore: ComponentScore, // Elevation sub-score floor outside the mapped floodplain
+  }).default({
+    coastalHighHazardZones: [],
+    slabInCoastalZonePoints: 0,
+    enclosureWithoutBreakawayPoints: 0,
+    zoneXMinimumElevationScore: 0,
+  }),
+  buildingUse: z.object({
+    verticalEvacuation: z.object({ // Occupants can shelter on an upper story above floodwater
+      minStories: z.number().int().min(2),
+      points: z.number(),
+    }),
+    basementPoints: z.number(),
+    lowerLevelUsePoints: z.object( // Only applied to buildings elevated on a foundation with a lower level
+      Object.fromEntries(LowerLevelUse.options.map(key => [key, z.number()])) as {
+        [K in LowerLevelUse]: z.ZodNumber;
+      }
+    ),
+    occupancyPoints: z.object( // Consequence of flooding for the occupants, e.g. children in schools
+      Object.fromEntries(OccupancyType.options.map(key => [key, z.number()])) as {
+        [K in OccupancyType]: z.ZodNumber;
+      }
+    ),
+  }).default({
+    verticalEvacuation: { minStories: 2, points: 0 },
+    basementPoints: 0,
+    lowerLevelUsePoints: { PARKING: 0, STORAGE: 0, LIVING_SPACE: 0 },
+    occupancyPoints: { SINGLE_FAMILY: 0, DUPLEX: 0, MULTI_FAMILY: 0, COMMERCIAL: 0, SCHOOL: 0 },
+  }),
+  constructionEras: z.array(z.object({
+    label: z.string(),
+    fromYear: z.number().int().optional(), // Inclusive
+    toYear: z.number().int().optional(),   // Exclusive
+    points: z.number(),
+    recommendation: z.string().optional(),
+  })).default([]),
+  pluvial: PluvialScoringSchema,
+  wind: WindScoringSchema,
+  heat: HeatScoringSchema,
+  hazardWeights: z.object({ // Weights of the flood and wind scores in the combined score
+    flood: Weight,
+    wind: Weight,
+  }).refine(sumsToOne, { message: 'Hazard weights must sum to 1' }).default({ flood: 1, wind: 0 }),
+  references: z.record(z.string()).optional(),
+});
+
+// A scoring profile data file. A version released before the pluvial, wind or heat model has no
+// such section and takes it from the next newer version of the profile (see ProfileService).
+export const ScoringProfileFileSchema = ScoringProfileSchema
+  .partial({ pluvial: true, wind: true, heat: true })
+  .refine(profile => (profile.roofShareOfMaterials === undefined) === (profile.roofMaterialScores === undefined), {
+    path: ['roofShareOfMaterials'],
+    message: 'roofShareOfMaterials and roofMaterialScores must be given together',
+  });
+
+// TypeScript Types
+export type ScoringWeights = z.infer<typeof ScoringWeightsSchema>;
+export type WindScoring = z.infer<typeof WindScoringSchema>;
+export type PluvialScoring = z.infer<typeof PluvialScoringSchema>;
+export type HeatScoring = z.infer<typeof HeatScoringSchema>;
+export type MitigationRules = z.infer<typeof MitigationRulesSchema>;
+export type ScoringProfile = z.infer<typeof ScoringProfileSchema>;
+export type ScoringProfileFile = z.infer<typeof ScoringProfileFileSchema>;
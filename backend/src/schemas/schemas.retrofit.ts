@@ -0,0 +1,123 @@
+import { z } from 'zod';
+import {
+  AssessmentRequestSchema,
+  FoundationType,
+  MitigationFeature,
+  RoofMaterialType,
+} from './schemas.assessment';
+
+// Retrofit Options
+export const RetrofitSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('ELEVATE'), feet: z.number().positive().max(20) }),
+  z.object({ type: z.literal('ADD_MITIGATION'), feature: MitigationFeature }),
+  z.object({ type: z.literal('CHANGE_ROOF'), roofMaterial: RoofMaterialType }),
+  z.object({ type: z.literal('CHANGE_FOUNDATION'), foundationType: FoundationType }),
+  z.object({ type: z.literal('PROTECT_UTILITIES') }),
+]);
+
+// Retrofit Cost Catalog (data/retrofits)
+const UnitCostSchema = z.object({
+  fixedCost: z.number().min(0),
+  costPerSqFt: z.number().min(0),
+});
+
+export const RetrofitCostCatalogSchema = z.object({
+  description: z.string().optional(),
+  currency: z.literal('USD'),
+  elevation: UnitCostSchema.extend({
+    costPerSqFtPerFoot: z.number().min(0),
+  }),
+  mitigationFeatures: z.object(
+    Object.fromEntries(MitigationFeature.options.map(feature => [feature, UnitCostSchema])) as {
+      [K in MitigationFeature]: typeof UnitCostSchema;
+    }
+  ),
+  roofAreaFactor: z.number().positive(), // Roof area per square foot of floor area
+  roofMaterials: z.object(
+    Object.fromEntries(RoofMaterialType.options.map(material => [material, UnitCostSchema.pick({ costPerSqFt: true })])) as {
+      [K in RoofMaterialType]: z.ZodObject<{ costPerSqFt: z.ZodNumber }>;
+    }
+  ),
+  foundations: z.object(
+    Object.fromEntries(FoundationType.options.map(foundation => [foundation, UnitCostSchema.pick({ costPerSqFt: true })])) as {
+      [K in FoundationType]: z.ZodObject<{ costPerSqFt: z.ZodNumber }>;
+    }
+  ),
+  utilityProtection: UnitCostSchema.pick({ fixedCost: true }),
+});
+
+// Cost-Benefit Request Schema
+export const CostBenefitRequestSchema = z.object({
+  assessment: AssessmentRequestSchema,
+  floorArea: z.number().positive(),                 // Square feet, drives area-based costs
+  retrofits: z.array(RetrofitSchema).min(1).max(20),
+  discountRate: z.number().min(0).max(0.2).optional(), // Defaults to config.costBenefit.discountRate
+}).refine(request => request.assessment.valuation !== undefined, {
+  path: ['assessment', 'valuation'],
+  message: 'Building and contents values are required for cost-benefit analysis',
+});
+
+// Cost-Benefit Response Schema
+export const CostBenefitResultSchema = z.object({
+  retrofit: RetrofitSchema,
+  description: z.string(),
+  upfrontCost: z.number(),
+  avoidedLosses: z.number(),       // Present value of avoided expected losses
+  netPresentValue: z.number(),     // avoidedLosses - upfrontCost
+  benefitCostRatio: z.number(),
+  paybackYear: z.number().nullable(), // First year discounted avoided losses cover the cost
+  currentScore: z.number(),
+  finalScore: z.number(),          // Score in the last year of the analysis period
+});
+
+export const CostBenefitResponseSchema = z.object({
+  discountRate: z.number(),
+  analysisPeriod: z.object({
+    startYear: z.number(),
+    endYear: z.number(),
+  }),
+  baseline: z.object({
+    currentScore: z.number(),
+    finalScore: z.number(),
+    expectedLosses: z.number(),    // Present value of expected losses without retrofits
+  }),
+  retrofits: z.array(CostBenefitResultSchema),
+});
+
+// Retrofit Optimization Request Schema
+export const OptimizationRequestSchema = z.object({
+  assessment: AssessmentRequestSchema,
+  floorArea: z.number().positive(),                   // Square feet, drives area-based costs
+  budget: z.number().positive(),                      // Maximum upfront cost in dollars
+  targetScore: z.number().min(0).max(100).optional(), // Defaults to config.thresholds.warningScore
+  targetYear: z.number().int().optional(),            // Defaults to the last timeline year
+  maxElevationIncrease: z.number().int().min(0).max(12).optional(), // Feet, searched in 1 ft steps
+});
+
+// Retrofit Package (one point on the cost vs. minimum score frontier)
+export const RetrofitPackageSchema = z.object({
+  retrofits: z.array(RetrofitSchema),
+  descriptions: z.array(z.string()),
+  cost: z.number(),
+  minimumScore: z.number(),  // Lowest combined score from the first timeline year through the target year
+  meetsTarget: z.boolean(),
+});
+
+export const OptimizationResponseSchema = z.object({
+  targetScore: z.number(),
+  targetYear: z.number(),
+  budget: z.number(),
+  evaluatedPackages: z.number(),
+  paretoFrontier: z.array(RetrofitPackageSchema), // Sorted by cost; each costs more and scores higher than the last
+  cheapestMeetingTarget: RetrofitPackageSchema.nullable(),
+});
+
+// TypeScript Types
+export type Retrofit = z.infer<typeof RetrofitSchema>;
+export type RetrofitCostCatalog = z.infer<typeof RetrofitCostCatalogSchema>;
+export type CostBenefitRequest = z.infer<typeof CostBenefitRequestSchema>;
+export type CostBenefitResult = z.infer<typeof CostBenefitResultSchema>;
+export type CostBenefitResponse = z.infer<typeof CostBenefitResponseSchema>;
+export type OptimizationRequest = z.infer<typeof OptimizationRequestSchema>;
+export type RetrofitPackage = z.infer<typeof RetrofitPackageSchema>;
+export type OptimizationResponse = z.infer<typeof OptimizationResponseSchema>;
@@ -0,0 +1,29 @@
+import { z } from 'zod';
+import { AssessmentRequestSchema } from './schemas.assessment';
+
+// Sensitivity Request Schema
+export const SensitivityRequestSchema = z.object({
+  assessment: AssessmentRequestSchema,
+  year: z.number().int().optional(), // Timeline year whose score is compared; defaults to the last year
+});
+
+// One row of the tornado chart: the lowest and highest score change among an input's variations
+export const SensitivityFactorSchema = z.object({
+  input: z.string(),      // AssessmentRequest field that was varied
+  label: z.string(),
+  baselineValue: z.string(),
+  low: z.object({ value: z.string(), delta: z.number() }),
+  high: z.object({ value: z.string(), delta: z.number() }),
+  swing: z.number(),      // high.delta - low.delta, used for ranking
+});
+
+export const SensitivityResponseSchema = z.object({
+  year: z.number(),
+  baselineScore: z.number(),
+  factors: z.array(SensitivityFactorSchema), // Ranked by swing, largest first
+});
+
+// TypeScript Types
+export type SensitivityRequest = z.infer<typeof SensitivityRequestSchema>;
+export type SensitivityFactor = z.infer<typeof SensitivityFactorSchema>;
+export type SensitivityResponse = z.infer<typeof SensitivityResponseSchema>;
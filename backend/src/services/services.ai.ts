@@ -1,11 +1,10 @@
 import OpenAI from 'openai';
 import { config } from '../config/config';
 import { AssessmentRequest } from '../schemas/schemas.assessment';
+import { FloodHazardService } from './services.flood-hazard';
 
 export class AIService {
-  private static openai = new OpenAI({
-    apiKey: config.openai.apiKey,
-  });
+  private static openai: OpenAI | null = null;
 
   /**
    * Generate enhanced recommendations using OpenAI
@@ -18,7 +17,7 @@ export class AIService {
     try {
       const prompt = this.buildPrompt(request, baseRecommendations, timeline);
       
-      const completion = await this.openai.chat.completions.create({
+      const completion = await this.getClient().chat.completions.create({
         model: config.openai.model,
         messages: [
           {
@@ -50,6 +49,16 @@ export class AIService {
     }
   }
 
+  // Created on first use, so assessments that skip the AI step (e.g. batch runs) need no API key
+  private static getClient(): OpenAI {
+    if (!this.openai) {
+      this.openai = new OpenAI({
+        apiKey: config.openai.apiKey,
+      });
+    }
+    return this.openai;
+  }
+
   /**
    * Build the prompt for OpenAI
    */
@@ -61,11 +70,22 @@ export class AIService {
     return `
       Building Assessment Details:
       - Foundation Type: ${request.foundationType}
-      - Elevation Above BFE: ${request.elevationAboveBFE} feet
-      - Structural Materials: ${request.materials.join(', ')}
+      - Elevation Above BFE: ${FloodHazardService.getElevationAboveBFE(request).toFixed(1)} feet
+      - Structural Materials: ${request.materials.map(assembly => `${assembly.material} ${assembly.share}% (${assembly.location})`).join(', ')}
       - Roof Material: ${request.roofMaterial} (${this.getRoofMaterialDescription(request.roofMaterial)})
+      - Roof Shape: ${request.roofShape ?? 'Not specified'}
+      - Roof-to-Wall Connection: ${request.roofToWallConnection ?? 'Not specified'}
+      - Opening Protection: ${request.openingProtection ?? 'Not specified'}
+      - Insulation: ${request.insulation ?? 'Not specified'}
+      - Window-to-Wall Ratio: ${request.windowToWallRatio ?? 'Not specified'}
+      - Shading: ${request.shading ?? 'Not specified'}
+      - Backup Power: ${request.backupPower ?? 'Not specified'}
       - Mitigation Features: ${request.mitigationFeatures.join(', ')}
       - Utility Protection: ${request.utilityProtection ? 'Yes' : 'No'}
+      - Occupancy: ${request.occupancyType ?? 'Not specified'}
+      - Stories: ${request.stories ?? 'Not specified'}
+      - Basement: ${request.hasBasement === undefined ? 'Not specified' : request.hasBasement ? 'Yes' : 'No'}
+      - Lower-Level Use: ${request.lowerLevelUse ?? 'Not specified'}
       ${request.designDescription ? `
       Design Description & Goals:
       ${request.designDescription}` : ''}
@@ -80,7 +100,7 @@ export class AIService {
         - Resilience Score: ${year.score.toFixed(1)}
       `).join('\n')}
 
-      Please provide specific, actionable recommendations for improving the building's flood resilience, considering:
+      Please provide specific, actionable recommendations for improving the building's flood, wind and heat resilience, considering:
       1. Immediate improvements needed
       2. Long-term adaptation strategies
       3. Cost-effective solutions
@@ -0,0 +1,92 @@
+import { AssessmentRequest, AssessmentResponse } from '../schemas/schemas.assessment';
+import { AIService } from './services.ai';
+import { ElevationService } from './services.elevation';
+import { FloodHazardService } from './services.flood-hazard';
+import { FloodZoneService } from './services.flood-zone';
+import { HeatService } from './services.heat';
+import { LossService } from './services.loss';
+import { MitigationService } from './services.mitigation';
+import { ProfileService } from './services.profiles';
+import { ScoringService } from './services.scoring';
+import { SeaLevelService } from './services.sea-level';
+import { SubsidenceService } from './services.subsidence';
+import { WindService } from './services.wind';
+
+export interface AssessmentOptions {
+  enhanceRecommendations?: boolean; // Rewrite the rule-based recommendations with AI (default true)
+}
+
+export class AssessmentService {
+  /**
+   * Run the full assessment of a validated request: flood score and timelines, wind, heat,
+   * uncertainty bands and recommendations
+   */
+  static async assess(request: AssessmentRequest, options: AssessmentOptions = {}): Promise<AssessmentResponse> {
+    const { enhanceRecommendations = true } = options;
+
+    // Resolve the scoring profile (rejects unknown ids/versions as invalid input)
+    const profile = ProfileService.getProfile(request.scoringProfile);
+
+    // Calculate current score and its per-component breakdown
+    const scoreBreakdown = ScoringService.calculateScoreBreakdown(request);
+
+    // Report how the mitigation features were scored, including features that do not apply
+    const mitigation = MitigationService.evaluate(request);
+
+    // Generate one timeline per requested scenario (the first is the primary timeline),
+    // with flood loss estimates when the request includes building values
+    const scenarioTimelines = SeaLevelService.resolveScenarios(request).map(scenario => ({
+      scenario,
+      timeline: LossService.withLosses(
+        request,
+        ScoringService.generateTimeline({ ...request, scenario })
+      ),
+    }));
+    const { scenario, timeline } = scenarioTimelines[0];
+
+    // Sample uncertainty bands when probabilistic mode is requested
+    const uncertainty = request.uncertainty
+      ? ScoringService.generateProbabilisticTimeline(request)
+      : undefined;
+
+    // Score wind resistance separately and combine it with the flood score
+    const wind = WindService.assess(request);
+    const hazardScores = ScoringService.calculateHazardScores(request, scoreBreakdown.total, wind.score);
+
+    // Project indoor overheating risk along the warming scenario (reported separately)
+    const heat = HeatService.assess(request);
+
+    // Get base recommendations from the first timeline entry and the wind and heat assessments
+    const baseRecommendations = [...timeline[0].recommendations, ...wind.recommendations, ...heat.recommendations];
+
+    // Generate enhanced recommendations using AI
+    const overallRecommendations = enhanceRecommendations
+      ? await AIService.generateEnhancedRecommendations(request, baseRecommendations, timeline)
+      : baseRecommendations;
+
+    return {
+      currentScore: scoreBreakdown.total,
+      scoreBreakdown,
+      mitigation,
+      floodHazard: FloodHazardService.summarize(request),
+      hazardScores,
+      wind,
+      heat,
+      scenario,
+      subsidenceRate: SubsidenceService.getRate(request.location),
+      timeline,
+      scenarioTimelines,
+      uncertainty,
+      overallRecommendations,
+      warnings: [
+        ...MitigationService.getWarnings(mitigation),
+        ...FloodZoneService.getWarnings(request),
+        ...ElevationService.getWarnings(request),
+      ],
+      scoringProfile: {
+        id: profile.id,
+        version: profile.version,
+      },
+    };
+  }
+}
@@ -0,0 +1,85 @@
+import { z } from 'zod';
+import { BatchService } from './services.batch';
+
+const HEADER = 'id,foundationType,elevationAboveBFE,currentBFE,materials,roofMaterial,mitigationFeatures,utilityProtection,location.latitude,location.longitude';
+const ROWS = [
+  'lot-12,SLAB_ON_GRADE,0.5,8,WOOD_FRAME,ASPHALT_SHINGLE,,false,29.95,-90.07',
+  'lot-13,PIER_AND_BEAM,2,8,WOOD_FRAME;MASONRY,METAL,FLOOD_VENTS;ELEVATED_UTILITIES,true,29.95,-90.07',
+];
+
+const runCsv = (text: string) => BatchService.run(text, { format: 'CSV', enhanceRecommendations: false });
+
+describe('BatchService', () => {
+  it('scores CSV rows with nested field paths and list columns', async () => {
+    const response = await runCsv([HEADER, ...ROWS].join('\n'));
+    expect(response.summary).toEqual({ rows: 2, assessed: 2, failed: 0 });
+    expect(response.results.map(result => result.id)).toEqual(['lot-12', 'lot-13']);
+    expect(response.results[1].currentScore).toBeGreaterThan(response.results[0].currentScore);
+  });
+
+  it('scores JSON Lines rows', async () => {
+    const input = {
+      id: 'lot-14',
+      foundationType: 'PIER_AND_BEAM',
+      elevationAboveBFE: 2,
+      currentBFE: 8,
+      materials: ['WOOD_FRAME'],
+      roofMaterial: 'METAL',
+      mitigationFeatures: [],
+      utilityProtection: true,
+      location: { latitude: 29.95, longitude: -90.07 },
+    };
+    const response = await BatchService.run(`${JSON.stringify(input)}\n\n{oops\n`, { format: 'JSONL', enhanceRecommendations: false });
+    expect(response.results.map(result => result.id)).toEqual(['lot-14']);
+    expect(response.errors).toMatchObject([{ row: 2, line: 3 }]);
+  });
+
+  it('reports invalid rows individually with their line and field path', async () => {
+    const response = await runCsv([HEADER, ROWS[0].replace('SLAB_ON_GRADE', 'STILTS'), 'lot-14,PIER_AND_BEAM', ROWS[1]].join('\n'));
+    expect(response.summary).toEqual({ rows: 3, assessed: 1, failed: 2 });
+    expect(response.errors[0]).toMatchObject({ row: 1, line: 2, id: 'lot-12' });
+    expect(response.errors[0].issues.map(issue => issue.path)).toContain('foundationType');
+    expect(response.errors[1].issues[0].message).toBe('Expected 10 cells, found 2');
+  });
+
+  it.each([
+    '__proto__.polluted',
+    'constructor.prototype.polluted',
+    'location.__proto__.polluted',
+    'location..latitude',
+  ])('rejects the header column %s without touching any prototype', async column => {
+    const text = [`${HEADER},${column}`, `${ROWS[0]},yes`].join('\n');
+    await expect(runCsv(text)).rejects.toThrow(z.ZodError);
+    await expect(runCsv(text)).rejects.toMatchObject({
+      errors: [{ path: ['header'], message: `Column "${column}" is not an assessment field path` }],
+    });
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+    expect((Object.prototype as Record<string, unknown>).polluted).toBeUndefined();
+  });
+
+  it('rejects duplicate and unnamed columns', async () => {
+    await expect(runCsv(`${HEADER},id\n${ROWS[0]},x`)).rejects.toMatchObject({ errors: [{ message: 'Duplicate column "id"' }] });
+    await expect(runCsv(`${HEADER},\n${ROWS[0]},x`)).rejects.toMatchObject({ errors: [{ message: 'Every column needs a name' }] });
+  });
+
+  it('rejects a batch that would score too many timeline years before scoring any row', async () => {
+    // 7 default timeline years x (1 scenario + 5000 samples) per row
+    const row = JSON.stringify({
+      foundationType: 'PIER_AND_BEAM',
+      elevationAboveBFE: 2,
+      currentBFE: 8,
+      materials: ['WOOD_FRAME'],
+      roofMaterial: 'METAL',
+      mitigationFeatures: [],
+      utilityProtection: true,
+      location: { latitude: 29.95, longitude: -90.07 },
+      uncertainty: { samples: 5000 },
+    });
+    await expect(BatchService.run([row, row, row].join('\n'), { format: 'JSONL', enhanceRecommendations: false }))
+      .rejects.toMatchObject({ errors: [{ message: expect.stringContaining('would score 105021 timeline years') }] });
+  });
+
+  it('rejects an input without buildings', async () => {
+    await expect(runCsv(`${HEADER}\n`)).rejects.toMatchObject({ errors: [{ message: 'The input contains no buildings' }] });
+  });
+});
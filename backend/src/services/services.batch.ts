@@ -0,0 +1,331 @@
+import { z } from 'zod';
+import { config } from '../config/config';
+import { formatCsv, parseCsv } from '../lib/lib.csv';
+import { percentile } from '../lib/lib.stats';
+import { AssessmentRequest, AssessmentRequestSchema } from '../schemas/schemas.assessment';
+import {
+  BatchAggregates,
+  BatchFormat,
+  BatchOptions,
+  BatchResponse,
+  BatchResult,
+  BatchRowError,
+} from '../schemas/schemas.batch';
+import { AssessmentService } from './services.assessment';
+import { SeaLevelService } from './services.sea-level';
+
+// Column holding the caller's building identifier; every other column is an AssessmentRequest field path
+const ID_COLUMN = 'id';
+
+// CSV columns whose cells are lists (an empty cell is an empty list)
+const LIST_COLUMNS = new Set(['materials', 'mitigationFeatures', 'scenarios', 'horizon.years']);
+
+// Path segments that would reach an object's prototype instead of one of its fields
+const FORBIDDEN_SEGMENTS = new Set(['__proto__', 'constructor', 'prototype']);
+
+// Columns of the results file, in order
+const RESULT_COLUMNS: Array<keyof BatchResult> = [
+  'row', 'id', 'currentScore', 'windScore', 'combinedScore', 'finalYear', 'finalScore',
+  'firstCriticalYear', 'expectedAnnualLoss', 'recommendations',
+];
+
+interface BatchRow {
+  row: number;
+  line: number;
+  id?: string;
+  input?: unknown;              // Parsed but not yet validated
+  request?: AssessmentRequest;  // Validated
+  issues?: BatchRowError['issues'];
+}
+
+const batchError = (message: string, path: Array<string | number> = []) =>
+  new z.ZodError([{ code: z.ZodIssueCode.custom, path, message }]);
+
+// CSV cells arrive as text: booleans, numbers and JSON lists/objects are converted, the rest stay strings
+const coerceCell = (cell: string): unknown => {
+  const value = cell.trim();
+  if (value === 'true' || value === 'false') {
+    return value === 'true';
+  }
+  if (value !== '' && Number.isFinite(Number(value))) {
+    return Number(value);
+  }
+  if (value.startsWith('[') || value.startsWith('{')) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value; // Reported by schema validation
+    }
+  }
+  return value;
+};
+
+// Only own fields are followed, so a path never writes into an inherited object
+const setPath = (target: Record<string, unknown>, path: string[], value: unknown) => {
+  const [key, ...rest] = path;
+  if (rest.length === 0) {
+    target[key] = value;
+    return;
+  }
+  const current = Object.prototype.hasOwnProperty.call(target, key) ? target[key] : undefined;
+  if (typeof current !== 'object' || current === null) {
+    target[key] = {};
+  }
+  setPath(target[key] as Record<string, unknown>, rest, value);
+};
+
+const round = (value: number) => Number(value.toFixed(2));
+
+export class BatchService {
+  /**
+   * Validate and score every building in a CSV or JSON Lines portfolio. Rows that fail to
+   * parse, validate or score are reported individually; the rest are scored and aggregated.
+   */
+  static async run(text: string, options: BatchOptions): Promise<BatchResponse> {
+    // Every row is validated before any is scored, so an oversized batch is rejected up front
+    const rows = this.parseRows(text, options.format).map(row => this.validateRow(row));
+    this.assertWithinBudget(rows);
+    const { criticalScore } = config.thresholds;
+    const results: BatchResult[] = [];
+    const timelines: Array<Array<{ year: number; score: number }>> = [];
+    const errors: BatchRowError[] = [];
+
+    // Rows are scored one at a time so AI requests are not sent in parallel
+    for (const row of rows) {
+      const { row: rowNumber, line, id, request } = row;
+      if (!request) {
+        errors.push({ row: rowNumber, line, id, issues: row.issues ?? [] });
+        continue;
+      }
+
+      try {
+        const assessment = await AssessmentService.assess(request, {
+          enhanceRecommendations: options.enhanceRecommendations,
+        });
+        const { timeline } = assessment;
+        const finalEntry = timeline[timeline.length - 1];
+        results.push({
+          row: rowNumber,
+          line,
+          id,
+          currentScore: round(assessment.currentScore),
+          windScore: round(assessment.hazardScores.wind),
+          combinedScore: round(assessment.hazardScores.combined),
+          finalYear: finalEntry.year,
+          finalScore: round(finalEntry.score),
+          firstCriticalYear: timeline.find(entry => entry.score < criticalScore)?.year ?? null,
+          expectedAnnualLoss: timeline[0].loss && Math.round(timeline[0].loss.expectedAnnualLoss),
+          recommendations: assessment.overallRecommendations,
+        });
+        timelines.push(timeline.map(({ year, score }) => ({ year, score })));
+      } catch (error) {
+        // Semantic request errors (e.g. an unknown profile) belong to the row; anything else fails the batch
+        if (!(error instanceof z.ZodError)) {
+          throw error;
+        }
+        errors.push({ row: rowNumber, line, id, issues: this.toIssues(error) });
+      }
+    }
+
+    return {
+      summary: { rows: rows.length, assessed: results.length, failed: errors.length },
+      criticalScore,
+      results,
+      errors,
+      aggregates: results.length > 0 ? this.aggregate(results, timelines, criticalScore) : null,
+    };
+  }
+
+  /**
+   * Results as a CSV file (recommendations joined with the list separator)
+   */
+  static formatResultsCsv(results: BatchResult[]): string {
+    return formatCsv([
+      RESULT_COLUMNS,
+      ...results.map(result => RESULT_COLUMNS.map(column => {
+        const value = result[column];
+        return Array.isArray(value) ? value.join(`${config.batch.listSeparator} `) : value;
+      })),
+    ]);
+  }
+
+  /**
+   * Results as JSON Lines, one building per line
+   */
+  static formatResultsJsonl(results: BatchResult[]): string {
+    return results.map(result => JSON.stringify(result)).join('\n') + '\n';
+  }
+
+  private static parseRows(text: string, format: BatchFormat): BatchRow[] {
+    const rows = format === 'CSV' ? this.parseCsvRows(text) : this.parseJsonlRows(text);
+    if (rows.length === 0) {
+      throw batchError('The input contains no buildings');
+    }
+    if (rows.length > config.batch.maxRows) {
+      throw batchError(`A batch may contain at most ${config.batch.maxRows} buildings; received ${rows.length}`);
+    }
+    return rows;
+  }
+
+  private static parseCsvRows(text: string): BatchRow[] {
+    let records;
+    try {
+      records = parseCsv(text);
+    } catch (error) {
+      throw batchError((error as Error).message);
+    }
+    if (records.length === 0) {
+      return [];
+    }
+
+    const [header, ...data] = records;
+    const columns = header.cells.map(cell => cell.trim());
+    const duplicate = columns.find((column, index) => columns.indexOf(column) !== index);
+    if (duplicate !== undefined) {
+      throw batchError(`Duplicate column "${duplicate}"`, ['header']);
+    }
+    if (columns.some(column => column === '')) {
+      throw batchError('Every column needs a name', ['header']);
+    }
+    const invalid = columns.find(column =>
+      column.split('.').some(segment => segment === '' || FORBIDDEN_SEGMENTS.has(segment)));
+    if (invalid !== undefined) {
+      throw batchError(`Column "${invalid}" is not an assessment field path`, ['header']);
+    }
+
+    const idIndex = columns.indexOf(ID_COLUMN);
+    return data.map((record, index): BatchRow => {
+      const id = idIndex >= 0 && record.cells[idIndex]?.trim() ? record.cells[idIndex].trim() : undefined;
+      const base = { row: index + 1, line: record.line, id };
+
+      if (record.cells.length !== columns.length) {
+        return {
+          ...base,
+          issues: [{ path: '', message: `Expected ${columns.length} cells, found ${record.cells.length}` }],
+        };
+      }
+
+      const input: Record<string, unknown> = {};
+      columns.forEach((column, columnIndex) => {
+        const cell = record.cells[columnIndex];
+        if (column === ID_COLUMN) {
+          return;
+        }
+        if (LIST_COLUMNS.has(column)) {
+          // Separated items, or a JSON array (e.g. material assemblies with shares)
+          setPath(input, column.split('.'), cell.trim().startsWith('[')
+            ? coerceCell(cell)
+            : cell.split(config.batch.listSeparator).map(item => item.trim()).filter(item => item !== '').map(coerceCell));
+        } else if (cell.trim() !== '') {
+          setPath(input, column.split('.'), coerceCell(cell));
+        }
+      });
+      return { ...base, input };
+    });
+  }
+
+  private static parseJsonlRows(text: string): BatchRow[] {
+    return text.split(/\r?\n/)
+      .map((content, index) => ({ content, line: index + 1 }))
+      .filter(({ content }) => content.trim() !== '')
+      .map(({ content, line }, index): BatchRow => {
+        let input: unknown;
+        try {
+          input = JSON.parse(content);
+        } catch (error) {
+          return { row: index + 1, line, issues: [{ path: '', message: `Invalid JSON: ${(error as Error).message}` }] };
+        }
+
+        const id = typeof input === 'object' && input !== null && ID_COLUMN in input
+          ? String((input as Record<string, unknown>)[ID_COLUMN])
+          : undefined;
+        return { row: index + 1, line, id, input };
+      });
+  }
+
+  private static validateRow(row: BatchRow): BatchRow {
+    if (row.issues) {
+      return row;
+    }
+    const parsed = AssessmentRequestSchema.safeParse(row.input);
+    return parsed.success
+      ? { ...row, request: parsed.data }
+      : { ...row, issues: this.toIssues(parsed.error) };
+  }
+
+  /**
+   * Rows are scored synchronously on the request thread, so the timeline years scored across the
+   * batch (each scenario's timeline and each Monte Carlo sample) are capped
+   */
+  private static assertWithinBudget(rows: BatchRow[]): void {
+    const { maxScoredYears } = config.batch;
+    const scoredYears = rows.reduce((total, { request }) => {
+      if (!request) {
+        return total;
+      }
+      const samples = request.uncertainty ? request.uncertainty.samples ?? config.uncertainty.samples : 0;
+      return total + SeaLevelService.resolveYears(request).length * (SeaLevelService.resolveScenarios(request).length + samples);
+    }, 0);
+    if (scoredYears > maxScoredYears) {
+      throw batchError(
+        `The batch would score ${scoredYears} timeline years, more than the ${maxScoredYears} allowed; ` +
+        'split it, or use fewer scenarios, uncertainty samples or horizon years'
+      );
+    }
+  }
+
+  private static toIssues(error: z.ZodError): BatchRowError['issues'] {
+    return error.errors.map(issue => ({ path: issue.path.join('.'), message: issue.message }));
+  }
+
+  /**
+   * Score distribution, buildings below the critical score per timeline year and the worst performers
+   */
+  private static aggregate(
+    results: BatchResult[],
+    timelines: Array<Array<{ year: number; score: number }>>,
+    criticalScore: number
+  ): BatchAggregates {
+    const scores = results.map(result => result.currentScore);
+    const { scoreBinWidth, worstPerformers } = config.batch;
+
+    const bins = Array.from({ length: Math.ceil(100 / scoreBinWidth) }, (_, index) => {
+      const from = index * scoreBinWidth;
+      const to = Math.min(from + scoreBinWidth, 100);
+      const last = to === 100;
+      return {
+        from,
+        to,
+        count: scores.filter(score => score >= from && (last ? score <= to : score < to)).length,
+      };
+    });
+
+    // Rows may have their own horizons, so each year counts the buildings projected that year
+    const byYear = new Map<number, { count: number; total: number }>();
+    for (const { year, score } of timelines.flat()) {
+      const entry = byYear.get(year) ?? { count: 0, total: 0 };
+      entry.total++;
+      if (score < criticalScore) {
+        entry.count++;
+      }
+      byYear.set(year, entry);
+    }
+
+    return {
+      scoreDistribution: {
+        min: Math.min(...scores),
+        median: round(percentile(scores, 50)),
+        mean: round(scores.reduce((sum, score) => sum + score, 0) / scores.length),
+        max: Math.max(...scores),
+        bins,
+      },
+      belowCriticalByYear: [...byYear.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([year, { count, total }]) => ({ year, count, share: round(count / total) })),
+      worstPerformers: [...results]
+        .sort((a, b) => a.currentScore - b.currentScore)
+        .slice(0, worstPerformers)
+        .map(({ row, id, currentScore, finalScore }) => ({ row, id, currentScore, finalScore })),
+    };
+  }
+}
@@ -0,0 +1,62 @@
+import { config } from '../config/config';
+import { ComparisonRequest, ComparisonResponse, ComparisonVariant } from '../schemas/schemas.comparison';
+import { LossService } from './services.loss';
+import { ScoringService } from './services.scoring';
+import { SeaLevelService } from './services.sea-level';
+
+const round = (value: number) => Number(value.toFixed(2));
+
+export class ComparisonService {
+  /**
+   * Assess each design option over the same timeline years and report its score
+   * differences against the first option and when it first drops below the critical score
+   */
+  static compare(request: ComparisonRequest): ComparisonResponse {
+    const horizon = request.horizon ?? request.variants[0].assessment.horizon;
+    const { criticalScore } = config.thresholds;
+
+    const assessed = request.variants.map((variant, index) => {
+      const assessment = { ...variant.assessment, horizon };
+      const timeline = LossService.withLosses(assessment, ScoringService.generateTimeline(assessment));
+      return {
+        label: variant.label ?? `Option ${index + 1}`,
+        scoreBreakdown: ScoringService.calculateScoreBreakdown(assessment),
+        scenario: SeaLevelService.resolveScenarios(assessment)[0],
+        timeline,
+        firstCriticalYear: timeline.find(entry => entry.score < criticalScore)?.year ?? null,
+      };
+    });
+
+    const baseline = assessed[0].scoreBreakdown;
+    const adjustmentPoints = (breakdown: typeof baseline) =>
+      breakdown.adjustments.reduce((sum, adjustment) => sum + adjustment.points, 0);
+
+    const variants = assessed.map((variant): ComparisonVariant => ({
+      ...variant,
+      currentScore: variant.scoreBreakdown.total,
+      scoreDelta: round(variant.scoreBreakdown.total - baseline.total),
+      componentDeltas: variant.scoreBreakdown.components.map(part => {
+        const base = baseline.components.find(candidate => candidate.component === part.component)!;
+        return {
+          component: part.component,
+          rawScoreDelta: round(part.rawScore - base.rawScore),
+          contributionDelta: round(part.contribution - base.contribution),
+        };
+      }),
+      adjustmentPointsDelta: round(adjustmentPoints(variant.scoreBreakdown) - adjustmentPoints(baseline)),
+    }));
+
+    const criticalYears = variants.flatMap(variant => (variant.firstCriticalYear === null ? [] : [variant.firstCriticalYear]));
+    const earliest = criticalYears.length > 0 ? Math.min(...criticalYears) : null;
+
+    return {
+      years: assessed[0].timeline.map(entry => entry.year),
+      criticalScore,
+      variants,
+      firstCritical: earliest === null ? null : {
+        year: earliest,
+        variants: variants.filter(variant => variant.firstCriticalYear === earliest).map(variant => variant.label),
+      },
+    };
+  }
+}
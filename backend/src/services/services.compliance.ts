@@ -0,0 +1,203 @@
+import { z } from 'zod';
+import { config } from '../config/config';
+import { listDataFiles, loadDataFile } from '../data/data.loader';
+import { AssessmentRequest, FoundationType } from '../schemas/schemas.assessment';
+import {
+  ComplianceRequest,
+  ComplianceResponse,
+  ComplianceRule,
+  ComplianceRuleResult,
+  ComplianceRuleSet,
+  ComplianceRuleSetSchema,
+  ComplianceRuleType,
+  ComplianceStatus,
+} from '../schemas/schemas.compliance';
+import { FloodHazardService } from './services.flood-hazard';
+import { FloodZoneService } from './services.flood-zone';
+
+const RULE_SETS_DIRECTORY = 'compliance';
+
+type Evaluation = Pick<ComplianceRuleResult, 'status' | 'message'>;
+type Evaluator<T extends ComplianceRuleType> = (
+  rule: Extract<ComplianceRule, { type: T }>,
+  request: AssessmentRequest
+) => Evaluation;
+
+const result = (status: ComplianceStatus, message: string): Evaluation => ({ status, message });
+
+const formatFeet = (feet: number) => `${Number(feet.toFixed(2))} ft`;
+
+const formatFoundation = (foundation: FoundationType) => foundation.toLowerCase().replace(/_/g, ' ');
+
+// One evaluator per rule type; zone and occupancy applicability is checked before these run
+const evaluators: { [T in ComplianceRuleType]: Evaluator<T> } = {
+  FREEBOARD: (rule, request) => {
+    const freeboard = FloodHazardService.getElevationAboveBFE(request);
+    return result(
+      freeboard >= rule.minimumFreeboard ? 'PASS' : 'FAIL',
+      `First floor is ${formatFeet(freeboard)} above the BFE; ${formatFeet(rule.minimumFreeboard)} required`
+    );
+  },
+
+  HEIGHT_ABOVE_GRADE: (rule, request) => {
+    // The scoring default for the foundation type is an assumption, not evidence of compliance
+    if (request.firstFloorHeightAboveGrade === undefined) {
+      return result('MISSING_INPUT', 'Provide firstFloorHeightAboveGrade to check this rule');
+    }
+    return result(
+      request.firstFloorHeightAboveGrade >= rule.minimumHeight ? 'PASS' : 'FAIL',
+      `First floor is ${formatFeet(request.firstFloorHeightAboveGrade)} above grade; ${formatFeet(rule.minimumHeight)} required`
+    );
+  },
+
+  FOUNDATION: (rule, request) => {
+    const foundation = formatFoundation(request.foundationType).replace(/^./, letter => letter.toUpperCase());
+    return rule.allowedFoundations.includes(request.foundationType)
+      ? result('PASS', `${foundation} is permitted`)
+      : result('FAIL', `${foundation} is not permitted; use ${rule.allowedFoundations.map(formatFoundation).join(' or ')}`);
+  },
+
+  BREAKAWAY_WALLS: (rule, request) => {
+    if (request.foundationType === 'SLAB_ON_GRADE') {
+      return result('NOT_APPLICABLE', 'Slab-on-grade buildings have no space below the lowest floor');
+    }
+    if (request.enclosureArea === 0) {
+      return result('NOT_APPLICABLE', 'The space below the lowest floor is left open');
+    }
+    if (request.breakawayWalls === undefined) {
+      return result('MISSING_INPUT', 'Provide breakawayWalls (or an enclosureArea of 0 for an open lower level) to check this rule');
+    }
+    return request.breakawayWalls
+      ? result('PASS', 'Lower-level enclosure walls are designed to break away')
+      : result('FAIL', 'Lower-level enclosure walls must break away under flood and wave loads or be removed');
+  },
+
+  FLOOD_OPENINGS: (rule, request) => {
+    if (request.foundationType === 'SLAB_ON_GRADE') {
+      return result('NOT_APPLICABLE', 'Slab-on-grade buildings have no enclosure below the lowest floor');
+    }
+    if (request.enclosureArea === undefined) {
+      return result('MISSING_INPUT', 'Provide enclosureArea to check this rule');
+    }
+    if (request.enclosureArea === 0) {
+      return result('NOT_APPLICABLE', 'There is no enclosure below the lowest floor');
+    }
+    // Vents without a stated opening area cannot be checked; no vents means no openings
+    if (request.floodVentOpeningArea === undefined && request.mitigationFeatures.includes('FLOOD_VENTS')) {
+      return result('MISSING_INPUT', 'Provide floodVentOpeningArea to check this rule');
+    }
+
+    const required = request.enclosureArea * rule.openingAreaPerSqFt;
+    const provided = request.floodVentOpeningArea ?? 0;
+    return result(
+      provided >= required ? 'PASS' : 'FAIL',
+      `${Math.round(provided)} sq in of flood openings for ${Math.round(request.enclosureArea)} sq ft of enclosure; ${Math.round(required)} sq in required`
+    );
+  },
+};
+
+export class ComplianceService {
+  private static ruleSets: ComplianceRuleSet[] | null = null;
+
+  /**
+   * Load and validate every compliance rule set in the data directory
+   */
+  static loadRuleSets(): void {
+    const ruleSets: ComplianceRuleSet[] = [];
+
+    for (const file of listDataFiles(RULE_SETS_DIRECTORY, '.json')) {
+      const ruleSet = loadDataFile(file, ComplianceRuleSetSchema);
+      if (ruleSets.some(existing => existing.id === ruleSet.id)) {
+        throw new Error(`Duplicate compliance rule set ${ruleSet.id} in ${file}`);
+      }
+      ruleSets.push(ruleSet);
+    }
+
+    this.ruleSets = ruleSets;
+  }
+
+  /**
+   * List the available rule sets
+   */
+  static listRuleSets(): Array<{ id: string; version: string; name: string; rules: number }> {
+    return this.getRuleSets().map(ruleSet => ({
+      id: ruleSet.id,
+      version: ruleSet.version,
+      name: ruleSet.name,
+      rules: ruleSet.rules.length,
+    }));
+  }
+
+  /**
+   * Evaluate a design against the selected rule sets (all of them by default).
+   * Unknown rule set ids are reported as request validation errors.
+   */
+  static evaluate(request: ComplianceRequest): ComplianceResponse {
+    const available = this.getRuleSets();
+    const ruleSets = request.ruleSets
+      ? request.ruleSets.map((id, index) => {
+        const ruleSet = available.find(candidate => candidate.id === id);
+        if (!ruleSet) {
+          throw new z.ZodError([{
+            code: z.ZodIssueCode.custom,
+            path: ['ruleSets', index],
+            message: `Unknown compliance rule set "${id}"`,
+          }]);
+        }
+        return ruleSet;
+      })
+      : available;
+
+    const ruleSetResults = ruleSets.map(ruleSet => {
+      const results = ruleSet.rules.map((rule): ComplianceRuleResult => ({
+        ruleId: rule.id,
+        type: rule.type,
+        title: rule.title,
+        ...this.evaluateRule(rule, request.assessment),
+        citation: rule.citation,
+      }));
+
+      return {
+        id: ruleSet.id,
+        version: ruleSet.version,
+        name: ruleSet.name,
+        compliant: results.every(ruleResult => ruleResult.status !== 'FAIL'),
+        results,
+      };
+    });
+
+    const statuses = ruleSetResults.flatMap(ruleSet => ruleSet.results.map(ruleResult => ruleResult.status));
+    return {
+      compliant: ruleSetResults.every(ruleSet => ruleSet.compliant),
+      summary: Object.fromEntries(
+        ComplianceStatus.options.map(status => [status, statuses.filter(candidate => candidate === status).length])
+      ) as ComplianceResponse['summary'],
+      ruleSets: ruleSetResults,
+    };
+  }
+
+  private static evaluateRule(rule: ComplianceRule, request: AssessmentRequest): Evaluation {
+    const floodZone = FloodZoneService.getFloodZone(request);
+    if (!floodZone) {
+      return result('MISSING_INPUT', 'Provide floodZone to decide whether this rule applies');
+    }
+    if (!rule.zones.includes(floodZone)) {
+      return result('NOT_APPLICABLE', `Applies in zones ${rule.zones.join(', ')}`);
+    }
+
+    const occupancy = request.occupancyType ?? config.loss.defaultOccupancy;
+    if (rule.occupancies && !rule.occupancies.includes(occupancy)) {
+      return result('NOT_APPLICABLE', `Applies to ${rule.occupancies.map(applies => applies.toLowerCase().replace(/_/g, ' ')).join(', ')} occupancies`);
+    }
+
+    // The registry is keyed by rule type, so each evaluator receives its own rule shape
+    return (evaluators[rule.type] as Evaluator<ComplianceRuleType>)(rule, request);
+  }
+
+  private static getRuleSets(): ComplianceRuleSet[] {
+    if (!this.ruleSets) {
+      this.loadRuleSets();
+    }
+    return this.ruleSets!;
+  }
+}
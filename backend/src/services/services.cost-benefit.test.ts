@@ -0,0 +1,58 @@
+import { z } from 'zod';
+import { CostBenefitRequestSchema } from '../schemas/schemas.retrofit';
+import { CostBenefitService } from './services.cost-benefit';
+
+const request = (retrofits: unknown[]) => CostBenefitRequestSchema.parse({
+  assessment: {
+    foundationType: 'PIER_AND_BEAM',
+    elevationAboveBFE: 0,
+    currentBFE: 8,
+    materials: ['WOOD_FRAME'],
+    roofMaterial: 'METAL',
+    mitigationFeatures: ['FLOOD_VENTS'],
+    utilityProtection: true,
+    valuation: { buildingReplacementValue: 300000, contentsValue: 100000 },
+    location: { latitude: 29.95, longitude: -90.07 },
+  },
+  floorArea: 1500,
+  retrofits,
+});
+
+describe('CostBenefitService', () => {
+  it('prices retrofits that change the building', () => {
+    const response = CostBenefitService.analyze(request([
+      { type: 'ELEVATE', feet: 2 },
+      { type: 'ADD_MITIGATION', feature: 'BACKFLOW_PREVENTION' },
+    ]));
+    expect(response.retrofits).toHaveLength(2);
+    expect(response.retrofits[0].avoidedLosses).toBeGreaterThan(0);
+  });
+
+  it('rejects every retrofit that would leave the building unchanged', () => {
+    expect.assertions(2);
+    try {
+      CostBenefitService.analyze(request([
+        { type: 'ADD_MITIGATION', feature: 'FLOOD_VENTS' },
+        { type: 'ELEVATE', feet: 2 },
+        { type: 'PROTECT_UTILITIES' },
+        { type: 'CHANGE_ROOF', roofMaterial: 'METAL' },
+        { type: 'CHANGE_FOUNDATION', foundationType: 'PIER_AND_BEAM' },
+      ]));
+    } catch (error) {
+      expect(error).toBeInstanceOf(z.ZodError);
+      expect((error as z.ZodError).errors.map(issue => issue.path)).toEqual([
+        ['retrofits', 0],
+        ['retrofits', 2],
+        ['retrofits', 3],
+        ['retrofits', 4],
+      ]);
+    }
+  });
+
+  it('names the retrofit in the error', () => {
+    expect(() => CostBenefitService.analyze(request([{ type: 'ADD_MITIGATION', feature: 'FLOOD_VENTS' }])))
+      .toThrow(expect.objectContaining({
+        errors: [expect.objectContaining({ message: expect.stringContaining('"Add flood vents" would not change the building') })],
+      }));
+  });
+});
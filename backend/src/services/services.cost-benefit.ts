@@ -0,0 +1,75 @@
+import { config } from '../config/config';
+import { AssessmentRequest } from '../schemas/schemas.assessment';
+import {
+  CostBenefitRequest,
+  CostBenefitResponse,
+  CostBenefitResult,
+} from '../schemas/schemas.retrofit';
+import { LossService } from './services.loss';
+import { RetrofitService } from './services.retrofit';
+import { ScoringService } from './services.scoring';
+
+// Annual expected losses and scores over the analysis period for one building configuration
+const runModel = (request: AssessmentRequest) => {
+  const timeline = ScoringService.generateTimeline(request);
+  return {
+    timeline,
+    annualLosses: LossService.calculateAnnualLosses(request, timeline),
+  };
+};
+
+export class CostBenefitService {
+  /**
+   * Compare each candidate retrofit against the unmodified building.
+   * Benefits are the discounted expected flood losses avoided over the timeline period.
+   */
+  static analyze(request: CostBenefitRequest): CostBenefitResponse {
+    RetrofitService.assertChangesBuilding(request.assessment, request.retrofits, ['retrofits']);
+
+    const discountRate = request.discountRate ?? config.costBenefit.discountRate;
+    const baseline = runModel(request.assessment);
+    const startYear = baseline.annualLosses[0].year;
+    const endYear = baseline.annualLosses[baseline.annualLosses.length - 1].year;
+
+    // Losses in year N are discounted N years back to the start of the analysis period
+    const discount = (year: number) => 1 / Math.pow(1 + discountRate, year - startYear);
+    const baselineLosses = baseline.annualLosses.map(({ year, expectedAnnualLoss }) => expectedAnnualLoss * discount(year));
+
+    const retrofits = request.retrofits.map((retrofit): CostBenefitResult => {
+      const retrofitted = runModel(RetrofitService.applyRetrofit(request.assessment, retrofit));
+      const upfrontCost = RetrofitService.estimateCost(retrofit, request.floorArea);
+
+      let avoidedLosses = 0;
+      let paybackYear: number | null = null;
+      retrofitted.annualLosses.forEach(({ year, expectedAnnualLoss }, index) => {
+        avoidedLosses += baselineLosses[index] - expectedAnnualLoss * discount(year);
+        if (paybackYear === null && upfrontCost > 0 && avoidedLosses >= upfrontCost) {
+          paybackYear = year;
+        }
+      });
+
+      return {
+        retrofit,
+        description: RetrofitService.describe(retrofit),
+        upfrontCost: Math.round(upfrontCost),
+        avoidedLosses: Math.round(avoidedLosses),
+        netPresentValue: Math.round(avoidedLosses - upfrontCost),
+        benefitCostRatio: upfrontCost > 0 ? Number((avoidedLosses / upfrontCost).toFixed(2)) : 0,
+        paybackYear,
+        currentScore: retrofitted.timeline[0].score,
+        finalScore: retrofitted.timeline[retrofitted.timeline.length - 1].score,
+      };
+    });
+
+    return {
+      discountRate,
+      analysisPeriod: { startYear, endYear },
+      baseline: {
+        currentScore: baseline.timeline[0].score,
+        finalScore: baseline.timeline[baseline.timeline.length - 1].score,
+        expectedLosses: Math.round(baselineLosses.reduce((sum, loss) => sum + loss, 0)),
+      },
+      retrofits,
+    };
+  }
+}
@@ -0,0 +1,79 @@
+import { z } from 'zod';
+import { AssessmentRequestSchema } from '../schemas/schemas.assessment';
+import { DatumService } from './services.datum';
+
+// Center of the northwest cell of the NGVD29 grid (NAVD88 - NGVD29 = -0.32 ft) and a point off the grid
+const GRID_CELL = { latitude: 30.15, longitude: -90.35 };
+const OFF_GRID = { latitude: 35, longitude: -80 };
+
+const request = (overrides: Record<string, unknown> = {}) => AssessmentRequestSchema.parse({
+  foundationType: 'PIER_AND_BEAM',
+  elevationAboveBFE: 2,
+  currentBFE: 8,
+  materials: ['WOOD_FRAME'],
+  roofMaterial: 'METAL',
+  mitigationFeatures: [],
+  utilityProtection: true,
+  location: GRID_CELL,
+  ...overrides,
+});
+
+describe('DatumService', () => {
+  it('lists the geodetic and gauge datums', () => {
+    expect(DatumService.listDatums().map(datum => datum.id)).toEqual(['NAVD88', 'NGVD29', 'CAIRO', 'MLG']);
+    expect(DatumService.isKnown('MLG')).toBe(true);
+    expect(DatumService.isKnown('MLLW')).toBe(false);
+  });
+
+  it('converts NGVD29 with the offset grid', () => {
+    expect(DatumService.convert(10, 'NGVD29', 'NAVD88', GRID_CELL)).toBeCloseTo(9.68);
+    expect(DatumService.convert(9.68, 'NAVD88', 'NGVD29', GRID_CELL)).toBeCloseTo(10);
+  });
+
+  it('interpolates the offset between grid cells', () => {
+    expect(DatumService.convert(0, 'NGVD29', 'NAVD88', { latitude: 30.15, longitude: -90.3 })).toBeCloseTo(-0.33);
+  });
+
+  it('falls back to the default offset off the grid', () => {
+    expect(DatumService.convert(10, 'NGVD29', 'NAVD88', OFF_GRID)).toBeCloseTo(9.55);
+  });
+
+  it('converts gauge datums through their reference datum', () => {
+    expect(DatumService.convert(25, 'CAIRO', 'NGVD29', GRID_CELL)).toBeCloseTo(4.57);
+    expect(DatumService.convert(25, 'CAIRO', 'NAVD88', GRID_CELL)).toBeCloseTo(4.25);
+    expect(DatumService.convert(4, 'MLG', 'CAIRO', GRID_CELL)).toBeCloseTo(23.78);
+  });
+
+  it('round-trips between every pair of datums', () => {
+    const ids = DatumService.listDatums().map(datum => datum.id);
+    for (const from of ids) {
+      for (const to of ids) {
+        const converted = DatumService.convert(7.5, from, to, GRID_CELL);
+        expect(DatumService.convert(converted, to, from, GRID_CELL)).toBeCloseTo(7.5);
+      }
+    }
+  });
+
+  it('rejects an unknown datum as invalid input', () => {
+    expect(() => DatumService.convert(1, 'MLLW', 'NAVD88', GRID_CELL)).toThrow(z.ZodError);
+    expect(() => DatumService.getDatum(request({ datum: 'MLLW' }))).toThrow(z.ZodError);
+  });
+
+  it('normalizes tagged inputs to the request datum', () => {
+    expect(DatumService.getDatum(request())).toBe('NAVD88');
+    const tagged = request({ datum: 'NGVD29', elevationDatums: { currentBFE: 'NAVD88' } });
+    expect(DatumService.normalize(tagged, 'currentBFE', 9.68)).toBeCloseTo(10);
+    expect(DatumService.normalize(tagged, 'siteElevation', 3)).toBe(3);
+  });
+
+  it('reports an unknown tagged datum at its field', () => {
+    const tagged = request({ elevationDatums: { currentBFE: 'MLLW' } });
+    expect.assertions(2);
+    try {
+      DatumService.normalize(tagged, 'currentBFE', 8);
+    } catch (error) {
+      expect(error).toBeInstanceOf(z.ZodError);
+      expect((error as z.ZodError).errors[0].path).toEqual(['elevationDatums', 'currentBFE']);
+    }
+  });
+});
@@ -0,0 +1,130 @@
+import { z } from 'zod';
+import { config } from '../config/config';
+import { loadDataFile } from '../data/data.loader';
+import { Raster, sampleBilinear } from '../lib/lib.raster';
+import { AssessmentRequest, ElevationDatums, Location, VerticalDatum } from '../schemas/schemas.assessment';
+import { DatumTable, DatumTableSchema } from '../schemas/schemas.elevation';
+
+interface DatumConversions {
+  table: DatumTable;
+  ngvd29Offsets: Raster;
+}
+
+export class DatumService {
+  private static conversions: DatumConversions | null = null;
+
+  /**
+   * Load and validate the NGVD29 offset grid and the gauge datums
+   */
+  static loadTable(): void {
+    const table = loadDataFile(config.datums.table, DatumTableSchema);
+    const { bounds, cellSize, offsets } = table.ngvd29ToNavd88;
+    this.conversions = {
+      table,
+      ngvd29Offsets: {
+        columns: offsets[0].length,
+        rows: offsets.length,
+        west: bounds.west,
+        north: bounds.north,
+        cellWidth: cellSize,
+        cellHeight: cellSize,
+        values: Float64Array.from(offsets.flat()),
+      },
+    };
+  }
+
+  /**
+   * The geodetic datums and gauge datums elevations can be given in
+   */
+  static listDatums(): Array<{ id: VerticalDatum; name: string }> {
+    return [
+      { id: 'NAVD88', name: 'North American Vertical Datum of 1988' },
+      { id: 'NGVD29', name: 'National Geodetic Vertical Datum of 1929' },
+      ...this.getConversions().table.gaugeDatums.map(({ id, name }) => ({ id, name })),
+    ];
+  }
+
+  /**
+   * Whether elevations can be converted to and from a datum
+   */
+  static isKnown(datum: VerticalDatum): boolean {
+    return this.listDatums().some(entry => entry.id === datum);
+  }
+
+  /**
+   * Convert an elevation in feet between datums at a location, through NAVD88
+   */
+  static convert(elevation: number, from: VerticalDatum, to: VerticalDatum, location: Location): number {
+    return from === to ? elevation : this.fromNavd88(this.toNavd88(elevation, from, location), to, location);
+  }
+
+  /**
+   * The datum a request's elevations are compared and reported in
+   */
+  static getDatum(request: AssessmentRequest): VerticalDatum {
+    const datum = request.datum ?? config.datums.defaultDatum;
+    this.assertKnown(datum, ['datum']);
+    return datum;
+  }
+
+  /**
+   * An absolute elevation input of the request, converted from its tagged datum to the request's datum
+   */
+  static normalize(request: AssessmentRequest, input: keyof ElevationDatums, elevation: number): number {
+    const from = request.elevationDatums?.[input];
+    if (from !== undefined) {
+      this.assertKnown(from, ['elevationDatums', input]);
+    }
+    return this.convert(elevation, from ?? this.getDatum(request), this.getDatum(request), request.location);
+  }
+
+  private static toNavd88(elevation: number, datum: VerticalDatum, location: Location): number {
+    if (datum === 'NAVD88') {
+      return elevation;
+    }
+    if (datum === 'NGVD29') {
+      return elevation + this.getNgvd29Offset(location);
+    }
+    const gauge = this.getGauge(datum);
+    return this.toNavd88(elevation + gauge.zeroElevation, gauge.referenceDatum, location);
+  }
+
+  private static fromNavd88(elevation: number, datum: VerticalDatum, location: Location): number {
+    if (datum === 'NAVD88') {
+      return elevation;
+    }
+    if (datum === 'NGVD29') {
+      return elevation - this.getNgvd29Offset(location);
+    }
+    const gauge = this.getGauge(datum);
+    return this.fromNavd88(elevation, gauge.referenceDatum, location) - gauge.zeroElevation;
+  }
+
+  // NAVD88 minus NGVD29 in feet at a location (the table's default outside the grid)
+  private static getNgvd29Offset(location: Location): number {
+    const { table, ngvd29Offsets } = this.getConversions();
+    return sampleBilinear(ngvd29Offsets, location.longitude, location.latitude) ?? table.ngvd29ToNavd88.defaultOffset;
+  }
+
+  private static getGauge(datum: VerticalDatum): DatumTable['gaugeDatums'][number] {
+    this.assertKnown(datum, ['datum']);
+    return this.getConversions().table.gaugeDatums.find(entry => entry.id === datum)!;
+  }
+
+  private static assertKnown(datum: VerticalDatum, path: Array<string | number>): void {
+    if (!this.isKnown(datum)) {
+      throw new z.ZodError([{
+        code: z.ZodIssueCode.custom,
+        path,
+        message: `Unknown vertical datum ${datum}; expected one of ${this.listDatums().map(entry => entry.id).join(', ')}`,
+      }]);
+    }
+  }
+
+  private static getConversions(): DatumConversions {
+    if (!this.conversions) {
+      this.loadTable();
+    }
+    return this.conversions!;
+  }
+}
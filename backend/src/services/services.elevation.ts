@@ -0,0 +1,99 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from '../config/config';
+import { loadDataFile, resolveDataPath } from '../data/data.loader';
+import { Raster, readAsciiGrid, readGeoTiff, sampleBilinear } from '../lib/lib.raster';
+import { AssessmentRequest, Location, VerticalDatum } from '../schemas/schemas.assessment';
+import { ElevationLookup, ElevationModelCatalogSchema } from '../schemas/schemas.elevation';
+import { DatumService } from './services.datum';
+import { FloodHazardService } from './services.flood-hazard';
+
+const FEET_PER_METER = 3.28084;
+
+interface ElevationModel {
+  raster: Raster;
+  datum: VerticalDatum;
+  toFeet: number;
+  dataset: string;
+}
+
+export class ElevationService {
+  private static models: ElevationModel[] | null = null;
+
+  /**
+   * Load the digital elevation model rasters listed in the catalog
+   */
+  static loadModels(): void {
+    const { catalog } = config.elevation;
+    this.models = loadDataFile(catalog, ElevationModelCatalogSchema).models.map(model => {
+      const file = path.posix.join(path.posix.dirname(catalog), model.file);
+      try {
+        if (!DatumService.isKnown(model.datum)) {
+          throw new Error(`unknown vertical datum ${model.datum}`);
+        }
+        const contents = fs.readFileSync(resolveDataPath(file));
+        return {
+          raster: /\.asc$/i.test(file) ? readAsciiGrid(contents.toString('utf8')) : readGeoTiff(contents),
+          datum: model.datum,
+          toFeet: model.units === 'METERS' ? FEET_PER_METER : 1,
+          dataset: file,
+        };
+      } catch (error) {
+        throw new Error(`Invalid data file ${file}: ${(error as Error).message}`);
+      }
+    });
+  }
+
+  /**
+   * Ground elevation in feet at a location from the first raster with data there
+   */
+  static lookup(location: Location): ElevationLookup {
+    for (const model of this.getModels()) {
+      const elevation = sampleBilinear(model.raster, location.longitude, location.latitude);
+      if (elevation !== undefined) {
+        return {
+          found: true,
+          elevation: Math.round(elevation * model.toFeet * 100) / 100,
+          datum: model.datum,
+          dataset: model.dataset,
+        };
+      }
+    }
+    return { found: false };
+  }
+
+  /**
+   * Warnings where the entered site elevation, or the ground implied by the first floor
+   * elevation and its height above grade, disagrees with the DEM (compared in the request's datum)
+   */
+  static getWarnings(request: AssessmentRequest): string[] {
+    const lookup = this.lookup(request.location);
+    if (lookup.elevation === undefined || lookup.datum === undefined) {
+      return [];
+    }
+
+    const datum = DatumService.getDatum(request);
+    const ground = DatumService.convert(lookup.elevation, lookup.datum, datum, request.location);
+    const tolerance = config.elevation.siteMismatchTolerance;
+    if (request.siteElevation !== undefined) {
+      const siteElevation = DatumService.normalize(request, 'siteElevation', request.siteElevation);
+      return Math.abs(siteElevation - ground) > tolerance
+        ? [`The entered site elevation of ${siteElevation.toFixed(1)} ft ${datum} differs from the DEM ground elevation of ${ground.toFixed(1)} ft ${datum}`]
+        : [];
+    }
+    if (request.firstFloorHeightAboveGrade !== undefined) {
+      const impliedGrade = FloodHazardService.getFirstFloorElevation(request) - request.firstFloorHeightAboveGrade;
+      return Math.abs(impliedGrade - ground) > tolerance
+        ? [`The first floor elevation and height above grade put the ground at ${impliedGrade.toFixed(1)} ft ${datum}, but the DEM ground elevation is ${ground.toFixed(1)} ft ${datum}`]
+        : [];
+    }
+    return [];
+  }
+
+  private static getModels(): ElevationModel[] {
+    if (!this.models) {
+      this.loadModels();
+    }
+    return this.models!;
+  }
+}
@@ -0,0 +1,61 @@
+import { AssessmentRequestSchema } from '../schemas/schemas.assessment';
+import { FloodHazardService } from './services.flood-hazard';
+
+// Center of the northwest cell of the NGVD29 grid (NAVD88 - NGVD29 = -0.32 ft)
+const LOCATION = { latitude: 30.15, longitude: -90.35 };
+
+const request = (overrides: Record<string, unknown>) => AssessmentRequestSchema.parse({
+  foundationType: 'PIER_AND_BEAM',
+  currentBFE: 8,
+  materials: ['WOOD_FRAME'],
+  roofMaterial: 'METAL',
+  mitigationFeatures: [],
+  utilityProtection: true,
+  location: LOCATION,
+  ...overrides,
+});
+
+describe('FloodHazardService.getElevationAboveBFE', () => {
+  it('uses elevationAboveBFE as given', () => {
+    expect(FloodHazardService.getElevationAboveBFE(request({ elevationAboveBFE: 2, siteElevation: 0 }))).toBe(2);
+  });
+
+  it('measures a surveyed first floor from the BFE, not the ground', () => {
+    expect(FloodHazardService.getElevationAboveBFE(request({ firstFloorElevation: 11, siteElevation: 4 }))).toBe(3);
+  });
+
+  it('derives the first floor from the ground and its height above grade', () => {
+    expect(FloodHazardService.getElevationAboveBFE(request({ siteElevation: 4, firstFloorHeightAboveGrade: 5 }))).toBe(1);
+  });
+
+  it("falls back to the profile's height above grade for the foundation type", () => {
+    expect(FloodHazardService.getElevationAboveBFE(request({ siteElevation: 4 }))).toBe(-1);
+    expect(FloodHazardService.getElevationAboveBFE(request({ siteElevation: 4, foundationType: 'PILE_FOUNDATION' }))).toBe(4);
+  });
+
+  it('converts the ground elevation from its datum before adding the height above grade', () => {
+    const tagged = request({ siteElevation: 4, firstFloorHeightAboveGrade: 5, elevationDatums: { siteElevation: 'NGVD29' } });
+    expect(FloodHazardService.getElevationAboveBFE(tagged)).toBeCloseTo(0.68);
+  });
+});
+
+describe('AssessmentRequestSchema first floor inputs', () => {
+  const base = {
+    foundationType: 'PIER_AND_BEAM',
+    materials: ['WOOD_FRAME'],
+    roofMaterial: 'METAL',
+    mitigationFeatures: [],
+    utilityProtection: true,
+    location: LOCATION,
+  };
+
+  it('rejects both elevationAboveBFE and firstFloorElevation', () => {
+    const result = AssessmentRequestSchema.safeParse({ ...base, elevationAboveBFE: 2, firstFloorElevation: 10 });
+    expect(result.success).toBe(false);
+  });
+
+  it('needs one of elevationAboveBFE, firstFloorElevation and siteElevation', () => {
+    expect(AssessmentRequestSchema.safeParse(base).success).toBe(false);
+    expect(AssessmentRequestSchema.safeParse({ ...base, siteElevation: 4 }).success).toBe(true);
+  });
+});
@@ -0,0 +1,111 @@
+import { z } from 'zod';
+import { config } from '../config/config';
+import { AssessmentRequest, FloodElevation, FloodHazardSummary } from '../schemas/schemas.assessment';
+import { DatumService } from './services.datum';
+import { FloodZoneService } from './services.flood-zone';
+import { PluvialService } from './services.pluvial';
+
+export class FloodHazardService {
+  /**
+   * Flood elevations for each modeled return period, raised by the projected relative rise.
+   * Elevations given in the request are used in the request's datum; the other configured return periods are
+   * derived from the 100-year elevation (the request's, or the BFE) using the configured offsets.
+   */
+  static getFloodElevations(request: AssessmentRequest, relativeRise = 0): FloodElevation[] {
+    const given = (request.floodElevations ?? []).map(entry => ({
+      ...entry,
+      elevation: DatumService.normalize(request, 'floodElevations', entry.elevation),
+    }));
+    const hundredYear = given.find(entry => entry.returnPeriod === 100)?.elevation
+      ?? FloodZoneService.getBaseFloodElevation(request);
+
+    const derived = config.baselineFloodParameters.returnPeriodOffsets
+      .filter(({ returnPeriod }) => !given.some(entry => entry.returnPeriod === returnPeriod))
+      .map(({ returnPeriod, offset }) => ({ returnPeriod, elevation: hundredYear + offset }));
+
+    const elevations = [...given, ...derived].sort((a, b) => a.returnPeriod - b.returnPeriod);
+
+    // Derived elevations can conflict with partial request values, e.g. a low 500-year elevation
+    elevations.forEach((entry, index) => {
+      const previous = elevations[index - 1];
+      if (previous && entry.elevation < previous.elevation) {
+        throw new z.ZodError([{
+          code: z.ZodIssueCode.custom,
+          path: ['floodElevations'],
+          message: `The ${entry.returnPeriod}-year flood elevation (${entry.elevation} ft) is below the ${previous.returnPeriod}-year elevation (${previous.elevation} ft); provide both`,
+        }]);
+      }
+    });
+
+    return elevations.map(({ returnPeriod, elevation }) => ({ returnPeriod, elevation: elevation + relativeRise }));
+  }
+
+  /**
+   * Height of the first floor above the current BFE in feet (negative below it): the request's
+   * elevationAboveBFE, or its first floor elevation less the BFE in the same datum. Without a surveyed
+   * first floor elevation, the first floor is the ground elevation plus its height above grade.
+   */
+  static getElevationAboveBFE(request: AssessmentRequest): number {
+    if (request.elevationAboveBFE !== undefined) {
+      return request.elevationAboveBFE;
+    }
+    // The request schema requires siteElevation when neither elevationAboveBFE nor firstFloorElevation is given
+    const firstFloor = request.firstFloorElevation !== undefined
+      ? DatumService.normalize(request, 'firstFloorElevation', request.firstFloorElevation)
+      : DatumService.normalize(request, 'siteElevation', request.siteElevation!) + PluvialService.getFirstFloorHeightAboveGrade(request);
+    return firstFloor - FloodZoneService.getBaseFloodElevation(request);
+  }
+
+  /**
+   * Elevation of the building's first floor (feet, in the request's datum)
+   */
+  static getFirstFloorElevation(request: AssessmentRequest): number {
+    return FloodZoneService.getBaseFloodElevation(request) + this.getElevationAboveBFE(request);
+  }
+
+  /**
+   * The flood zone, BFE and first floor elevation used for scoring, in the request's datum
+   */
+  static summarize(request: AssessmentRequest): FloodHazardSummary {
+    const floodZone = FloodZoneService.getFloodZone(request);
+    return {
+      floodZone,
+      floodZoneSource: request.floodZone ? 'REQUEST' : floodZone ? 'FLOOD_MAP' : 'NONE',
+      baseFloodElevation: Number(FloodZoneService.getBaseFloodElevation(request).toFixed(2)),
+      baseFloodElevationSource: request.currentBFE !== undefined ? 'REQUEST' : 'FLOOD_MAP',
+      firstFloorElevation: Number(this.getFirstFloorElevation(request).toFixed(2)),
+      elevationAboveBFE: Number(this.getElevationAboveBFE(request).toFixed(2)),
+      datum: DatumService.getDatum(request),
+    };
+  }
+
+  /**
+   * Annual chance that flood water rises above the first floor.
+   * The log of the exceedance probability is interpolated linearly in elevation between
+   * return periods and extrapolated from the nearest two beyond them (capped at 1).
+   */
+  static getFirstFloorExceedanceProbability(request: AssessmentRequest, relativeRise = 0): number {
+    const firstFloor = this.getFirstFloorElevation(request);
+    const points = this.getFloodElevations(request, relativeRise).map(({ returnPeriod, elevation }) => ({
+      logProbability: Math.log(1 / returnPeriod),
+      elevation,
+    }));
+
+    if (points.length === 1) {
+      return firstFloor <= points[0].elevation ? 1 : 0;
+    }
+
+    // Segment containing the first floor, or the nearest end segment to extrapolate from
+    const above = points.findIndex(point => point.elevation >= firstFloor);
+    const index = above === -1 ? points.length - 1 : Math.max(above, 1);
+    const lower = points[index - 1];
+    const upper = points[index];
+
+    if (upper.elevation === lower.elevation) {
+      return Math.min(1, Math.exp(firstFloor <= upper.elevation ? lower.logProbability : upper.logProbability));
+    }
+
+    const fraction = (firstFloor - lower.elevation) / (upper.elevation - lower.elevation);
+    return Math.min(1, Math.exp(lower.logProbability + (upper.logProbability - lower.logProbability) * fraction));
+  }
+}
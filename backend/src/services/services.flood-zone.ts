@@ -0,0 +1,163 @@
+import fs from 'fs';
+import { z } from 'zod';
+import { config } from '../config/config';
+import { listDataFiles, loadDataFile, resolveDataPath } from '../data/data.loader';
+import { readShapefile } from '../lib/lib.shapefile';
+import { createSpatialIndex, pointInRings, Ring, ringsBounds, SpatialIndex } from '../lib/lib.spatial';
+import { AssessmentRequest, FloodZone, Location, VerticalDatum } from '../schemas/schemas.assessment';
+import { FloodHazardMapSchema, FloodZoneLookup } from '../schemas/schemas.flood-zone';
+import { DatumService } from './services.datum';
+
+interface FloodHazardArea {
+  rings: Ring[];
+  mappedZone: string;
+  floodZone?: FloodZone;
+  staticBFE?: number;
+  datum: VerticalDatum;
+  dataset: string;
+}
+
+const toArea = (rings: Ring[], properties: Record<string, unknown>, dataset: string): FloodHazardArea => {
+  const { zoneField, bfeField, datumField, defaultDatum, noDataBFE, zoneAliases } = config.floodZones;
+  const mappedZone = String(properties[zoneField] ?? '').trim().toUpperCase();
+  const floodZone = FloodZone.safeParse(zoneAliases[mappedZone] ?? mappedZone);
+  const staticBFE = Number(properties[bfeField]);
+  const datum = String(properties[datumField] ?? '').replace(/\s+/g, '').toUpperCase() || defaultDatum; // e.g. "NAVD 88"
+  if (!DatumService.isKnown(datum)) {
+    throw new Error(`Invalid data file ${dataset}: unknown vertical datum ${datum}`);
+  }
+
+  return {
+    rings,
+    mappedZone,
+    floodZone: floodZone.success ? floodZone.data : undefined,
+    staticBFE: properties[bfeField] !== null && Number.isFinite(staticBFE) && staticBFE !== noDataBFE ? staticBFE : undefined,
+    datum,
+    dataset,
+  };
+};
+
+export class FloodZoneService {
+  private static index: SpatialIndex<FloodHazardArea> | null = null;
+
+  /**
+   * Load every GeoJSON and Shapefile flood hazard layer in the data directory into one spatial index.
+   * Where areas overlap, layers load in file name order and the first loaded area wins.
+   */
+  static loadMaps(): void {
+    const { directory } = config.floodZones;
+    const areas: FloodHazardArea[] = [];
+
+    for (const file of listDataFiles(directory, '.geojson')) {
+      for (const feature of loadDataFile(file, FloodHazardMapSchema).features) {
+        if (!feature.geometry) {
+          continue;
+        }
+        const polygons = feature.geometry.type === 'Polygon' ? [feature.geometry.coordinates] : feature.geometry.coordinates;
+        const rings = polygons.flat().map(ring => ring.map(([longitude, latitude]): [number, number] => [longitude, latitude]));
+        areas.push(toArea(rings, feature.properties ?? {}, file));
+      }
+    }
+
+    for (const file of listDataFiles(directory, '.shp')) {
+      const dbfPath = resolveDataPath(file.replace(/\.shp$/i, '.dbf'));
+      try {
+        const features = readShapefile(
+          fs.readFileSync(resolveDataPath(file)),
+          fs.existsSync(dbfPath) ? fs.readFileSync(dbfPath) : undefined
+        );
+        areas.push(...features.map(feature => toArea(feature.rings, feature.properties, file)));
+      } catch (error) {
+        throw new Error(`Invalid data file ${file}: ${(error as Error).message}`);
+      }
+    }
+
+    this.index = createSpatialIndex(areas.map(area => ({ bounds: ringsBounds(area.rings), item: area })));
+  }
+
+  /**
+   * Mapped flood zone and static BFE at a location
+   */
+  static lookup(location: Location): FloodZoneLookup {
+    const area = this.getIndex()
+      .query(location.longitude, location.latitude)
+      .find(candidate => pointInRings(candidate.rings, location.longitude, location.latitude));
+
+    if (!area) {
+      return { found: false };
+    }
+    return {
+      found: true,
+      floodZone: area.floodZone,
+      mappedZone: area.mappedZone,
+      staticBFE: area.staticBFE,
+      datum: area.staticBFE !== undefined ? area.datum : undefined,
+      dataset: area.dataset,
+    };
+  }
+
+  /**
+   * The request's flood zone, or the mapped zone at its location
+   */
+  static getFloodZone(request: AssessmentRequest): FloodZone | undefined {
+    return request.floodZone ?? this.lookup(request.location).floodZone;
+  }
+
+  /**
+   * The request's BFE, or the mapped static BFE at its location, in the request's datum.
+   * Throws a validation error when neither is available.
+   */
+  static getBaseFloodElevation(request: AssessmentRequest): number {
+    if (request.currentBFE !== undefined) {
+      return DatumService.normalize(request, 'currentBFE', request.currentBFE);
+    }
+
+    const mappedBFE = this.getMappedBaseFloodElevation(request);
+    if (mappedBFE === undefined) {
+      throw new z.ZodError([{
+        code: z.ZodIssueCode.custom,
+        path: ['currentBFE'],
+        message: 'No static BFE is mapped at this location; provide currentBFE',
+      }]);
+    }
+    return mappedBFE;
+  }
+
+  /**
+   * Warnings where the entered flood zone or BFE disagrees with the flood map
+   */
+  static getWarnings(request: AssessmentRequest): string[] {
+    const mapped = this.lookup(request.location);
+    const warnings: string[] = [];
+
+    if (request.floodZone && mapped.floodZone && request.floodZone !== mapped.floodZone) {
+      warnings.push(`Flood zone ${request.floodZone} was entered, but the flood map shows zone ${mapped.mappedZone} at this location`);
+    }
+
+    // Compared in the request's datum, so a BFE from an older map in NGVD29 only warns if it really differs
+    const mappedBFE = this.getMappedBaseFloodElevation(request);
+    if (request.currentBFE !== undefined && mappedBFE !== undefined) {
+      const enteredBFE = this.getBaseFloodElevation(request);
+      if (Math.abs(enteredBFE - mappedBFE) > config.floodZones.bfeMismatchTolerance) {
+        const datum = DatumService.getDatum(request);
+        warnings.push(`The entered BFE of ${enteredBFE.toFixed(1)} ft ${datum} differs from the mapped BFE of ${mappedBFE.toFixed(1)} ft ${datum}`);
+      }
+    }
+    return warnings;
+  }
+
+  // Mapped static BFE at the request's location, converted to the request's datum
+  private static getMappedBaseFloodElevation(request: AssessmentRequest): number | undefined {
+    const { staticBFE, datum } = this.lookup(request.location);
+    return staticBFE === undefined || datum === undefined
+      ? undefined
+      : DatumService.convert(staticBFE, datum, DatumService.getDatum(request), request.location);
+  }
+
+  private static getIndex(): SpatialIndex<FloodHazardArea> {
+    if (!this.index) {
+      this.loadMaps();
+    }
+    return this.index!;
+  }
+}
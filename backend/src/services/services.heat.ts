@@ -0,0 +1,176 @@
+import { config } from '../config/config';
+import { loadDataFile } from '../data/data.loader';
+import {
+  AssessmentRequest,
+  HeatAssessment,
+  HeatScoreBreakdown,
+  HeatTimelineEntry,
+  OverheatingRisk,
+  WarmingScenario,
+} from '../schemas/schemas.assessment';
+import { WarmingScenarioTable, WarmingScenarioTableSchema } from '../schemas/schemas.climate';
+import { HeatScoring } from '../schemas/schemas.profile';
+import { ProfileService } from './services.profiles';
+import { SeaLevelService } from './services.sea-level';
+
+export class HeatService {
+  private static table: WarmingScenarioTable | null = null;
+
+  /**
+   * Load and validate the warming scenario curves
+   */
+  static loadScenarios(): void {
+    this.table = loadDataFile(config.heat.warmingScenarios, WarmingScenarioTableSchema);
+  }
+
+  /**
+   * Projected summer warming in degrees F between the baseline year and the given year.
+   * Years outside the table are clamped to its first and last values.
+   */
+  static getWarming(scenario: WarmingScenario, year: number): number {
+    const table = this.getTable();
+    const values = table.scenarios[scenario].warmingByYear;
+    const index = Math.min(Math.max(year - table.years[0], 0), table.years.length - 1);
+    const lower = Math.floor(index);
+    const upper = Math.min(lower + 1, values.length - 1);
+    return values[lower] + (values[upper] - values[lower]) * (index - lower);
+  }
+
+  /**
+   * Projected days per year with a heat index at or above 105 F
+   */
+  static getExtremeHeatDays(scenario: WarmingScenario, year: number): number {
+    const table = this.getTable();
+    return table.baselineExtremeHeatDays + table.extremeHeatDaysPerDegree * this.getWarming(scenario, year);
+  }
+
+  /**
+   * Score the building's resistance to indoor overheating and project it along the
+   * warming scenario, with more extreme heat days penalizing less resistant buildings more
+   */
+  static assess(request: AssessmentRequest): HeatAssessment {
+    const { heat } = ProfileService.getProfile(request.scoringProfile);
+    const warmingScenario = request.warmingScenario ?? config.heat.defaultScenario;
+    const inputs = this.resolveInputs(request, heat);
+    const { fullScoreRatio, zeroScoreRatio } = heat.windowToWallRatio;
+
+    const components = ([
+      {
+        component: 'ROOF_REFLECTANCE',
+        rawScore: Math.min(heat.roofSolarReflectance[request.roofMaterial] / heat.fullScoreReflectance, 1) * 100,
+        weight: heat.weights.roofReflectance,
+      },
+      { component: 'INSULATION', rawScore: heat.insulationScores[inputs.insulation], weight: heat.weights.insulation },
+      {
+        component: 'WINDOW_TO_WALL_RATIO',
+        // Linear from 100 at the full-score ratio down to 0 at the zero-score ratio
+        rawScore: Math.min(Math.max((zeroScoreRatio - inputs.windowToWallRatio) / (zeroScoreRatio - fullScoreRatio), 0), 1) * 100,
+        weight: heat.weights.windowToWallRatio,
+      },
+      { component: 'SHADING', rawScore: heat.shadingScores[inputs.shading], weight: heat.weights.shading },
+      { component: 'BACKUP_POWER', rawScore: heat.backupPowerScores[inputs.backupPower], weight: heat.weights.backupPower },
+    ] as Array<Omit<HeatScoreBreakdown['components'][number], 'contribution'>>).map(part => ({
+      ...part,
+      contribution: part.rawScore * part.weight,
+    }));
+    const resistance = components.reduce((sum, part) => sum + part.contribution, 0);
+
+    const projectYear = (year: number): HeatTimelineEntry => {
+      const warming = this.getWarming(warmingScenario, year);
+      const extremeHeatDays = this.getExtremeHeatDays(warmingScenario, year);
+      const adjustments: HeatScoreBreakdown['adjustments'] = [];
+
+      // Days beyond the reference count, scaled by the building's vulnerability (100 minus its resistance)
+      const excessDays = extremeHeatDays - heat.exposure.referenceExtremeHeatDays;
+      if (excessDays > 0) {
+        const penalty = Math.min(excessDays * heat.exposure.pointsPerExtremeHeatDay, heat.exposure.maxPenalty) *
+          (1 - resistance / 100);
+        adjustments.push({
+          rule: 'EXTREME_HEAT_EXPOSURE',
+          description: `${extremeHeatDays.toFixed(0)} projected extreme heat days per year`,
+          points: -Number(penalty.toFixed(2)),
+        });
+      }
+
+      const total = resistance + adjustments.reduce((sum, adjustment) => sum + adjustment.points, 0);
+      const score = Math.min(Math.max(total, 0), 100);
+
+      return {
+        year,
+        warming: Number(warming.toFixed(2)),
+        extremeHeatDays: Number(extremeHeatDays.toFixed(1)),
+        score,
+        overheatingRisk: this.classifyRisk(score),
+        breakdown: { total: score, components, adjustments },
+      };
+    };
+
+    const timeline = SeaLevelService.resolveYears(request).map(projectYear);
+
+    return {
+      warmingScenario,
+      // Current score at the baseline year like the flood score, whatever year the horizon starts in
+      score: projectYear(config.baselineFloodParameters.baselineYear).score,
+      timeline,
+      recommendations: this.generateRecommendations(request, inputs, timeline),
+    };
+  }
+
+  private static classifyRisk(score: number): OverheatingRisk {
+    if (score < config.thresholds.criticalScore) {
+      return 'HIGH';
+    }
+    return score < config.thresholds.warningScore ? 'MODERATE' : 'LOW';
+  }
+
+  // Request inputs with the profile's defaults for those the request omits
+  private static resolveInputs(request: AssessmentRequest, heat: HeatScoring) {
+    return {
+      insulation: request.insulation ?? heat.defaults.insulation,
+      windowToWallRatio: request.windowToWallRatio ?? heat.defaults.windowToWallRatio,
+      shading: request.shading ?? heat.defaults.shading,
+      backupPower: request.backupPower ?? heat.defaults.backupPower,
+    };
+  }
+
+  /**
+   * Generate heat-specific recommendations
+   */
+  private static generateRecommendations(
+    request: AssessmentRequest,
+    inputs: ReturnType<typeof HeatService.resolveInputs>,
+    timeline: HeatTimelineEntry[]
+  ): string[] {
+    const recommendations: string[] = [];
+    const last = timeline[timeline.length - 1];
+
+    if (last.overheatingRisk !== 'LOW') {
+      recommendations.push(`Indoor overheating risk is ${last.overheatingRisk.toLowerCase()} by ${last.year}, with about ${last.extremeHeatDays.toFixed(0)} extreme heat days per year`);
+    }
+
+    if (request.roofMaterial === 'ASPHALT_SHINGLE') {
+      recommendations.push('Use a cool roof (high solar reflectance shingles or coating) to cut attic heat gain');
+    }
+
+    if (inputs.insulation === 'POOR') {
+      recommendations.push('Add attic and wall insulation to slow indoor temperature rise when cooling is lost');
+    }
+
+    if (inputs.windowToWallRatio > 0.3 && inputs.shading !== 'FULL') {
+      recommendations.push('Shade large east- and west-facing windows or use low solar heat gain glazing');
+    }
+
+    if (inputs.backupPower === 'NONE') {
+      recommendations.push('Provide backup power to keep at least one room cooled - hurricane power outages often coincide with extreme heat');
+    }
+
+    return recommendations;
+  }
+
+  private static getTable(): WarmingScenarioTable {
+    if (!this.table) {
+      this.loadScenarios();
+    }
+    return this.table!;
+  }
+}
@@ -0,0 +1,150 @@
+import { config } from '../config/config';
+import { loadDataFile } from '../data/data.loader';
+import { AssessmentRequest, FloodZone } from '../schemas/schemas.assessment';
+import {
+  InsuranceRatingTable,
+  InsuranceRatingTableSchema,
+  InsuranceRequest,
+  InsuranceResponse,
+  PremiumBand,
+  RetrofitPremium,
+} from '../schemas/schemas.insurance';
+import { Retrofit } from '../schemas/schemas.retrofit';
+import { FloodHazardService } from './services.flood-hazard';
+import { FloodZoneService } from './services.flood-zone';
+import { RetrofitService } from './services.retrofit';
+import { ScoringService } from './services.scoring';
+import { SeaLevelService } from './services.sea-level';
+
+export class InsuranceService {
+  private static table: InsuranceRatingTable | null = null;
+
+  /**
+   * Load and validate the NFIP rating tables
+   */
+  static loadRates(): void {
+    this.table = loadDataFile(config.insurance.ratingTables, InsuranceRatingTableSchema);
+  }
+
+  /**
+   * Estimate annual NFIP premium bands now, at each timeline year and after each retrofit
+   * that lowers the current premium
+   */
+  static estimate(request: InsuranceRequest): InsuranceResponse {
+    const { assessment } = request;
+    const [scenario] = SeaLevelService.resolveScenarios(assessment);
+    const current = this.estimatePremium(assessment);
+    const elevationAboveBFE = FloodHazardService.getElevationAboveBFE(assessment);
+
+    // The rated zone is kept fixed; the BFE is assumed to be remapped as relative sea level rises
+    const timeline = ScoringService.generateTimeline(assessment).map(entry => ({
+      year: entry.year,
+      elevationDifference: Number((elevationAboveBFE - entry.relativeRise).toFixed(2)),
+      premium: this.estimatePremium(assessment, entry.relativeRise),
+    }));
+
+    const retrofitSavings = this.generateRetrofits(assessment)
+      .map((retrofit): RetrofitPremium => {
+        const premium = this.estimatePremium(RetrofitService.applyRetrofit(assessment, retrofit));
+        return {
+          retrofit,
+          description: RetrofitService.describe(retrofit),
+          premium,
+          annualSavings: current.estimate - premium.estimate,
+        };
+      })
+      .filter(option => option.annualSavings > 0)
+      .sort((a, b) => b.annualSavings - a.annualSavings);
+
+    return {
+      floodZone: this.getRatedZone(assessment),
+      scenario,
+      coverage: this.getCoverage(assessment),
+      current,
+      timeline,
+      retrofitSavings,
+    };
+  }
+
+  /**
+   * Annual premium band in dollars with the BFE raised by the given relative rise (feet)
+   */
+  static estimatePremium(request: AssessmentRequest, relativeRise = 0): PremiumBand {
+    const table = this.getTable();
+    const { foundationFactors, mitigationCredits, fees, band } = table;
+    const rows = table.zoneRates[this.getRatedZone(request)];
+    const elevationDifference = FloodHazardService.getElevationAboveBFE(request) - relativeRise;
+    const rate = rows.find(row => row.minElevationDifference !== undefined && elevationDifference >= row.minElevationDifference)
+      ?? rows[rows.length - 1];
+
+    // Credits for flood openings in an enclosure and for machinery above the BFE
+    const hasVents = request.mitigationFeatures.includes('FLOOD_VENTS')
+      && mitigationCredits.floodVents.foundations.includes(request.foundationType);
+    const hasElevatedMachinery = request.mitigationFeatures.includes('ELEVATED_UTILITIES');
+    const creditFactor = (hasVents ? 1 - mitigationCredits.floodVents.discount : 1)
+      * (hasElevatedMachinery ? 1 - mitigationCredits.elevatedMachinery.discount : 1);
+
+    const coverage = this.getCoverage(request);
+    const foundationFactor = foundationFactors[request.foundationType];
+    const buildingPremium = coverage.building / 100 * rate.building * foundationFactor * creditFactor;
+    const contentsPremium = coverage.contents / 100 * rate.contents * foundationFactor;
+
+    const occupancy = request.occupancyType ?? config.loss.defaultOccupancy;
+    const estimate = (buildingPremium + contentsPremium + fees.iccPremium) * (1 + fees.reserveFundAssessment)
+      + fees.hfiaaSurcharge[occupancy]
+      + fees.federalPolicyFee;
+
+    return {
+      low: Math.round(estimate * band.low),
+      estimate: Math.round(estimate),
+      high: Math.round(estimate * band.high),
+    };
+  }
+
+  /**
+   * Retrofits that can earn a better rate: elevating to each higher rate row within the
+   * optimizer's elevation limit, and the flood vent and elevated machinery credits
+   */
+  private static generateRetrofits(request: AssessmentRequest): Retrofit[] {
+    const { zoneRates, mitigationCredits } = this.getTable();
+    const retrofits: Retrofit[] = [];
+    const elevationAboveBFE = FloodHazardService.getElevationAboveBFE(request);
+
+    const elevations = zoneRates[this.getRatedZone(request)]
+      .flatMap(row => row.minElevationDifference === undefined ? [] : [Math.ceil(row.minElevationDifference - elevationAboveBFE)])
+      .filter(feet => feet > 0 && feet <= config.optimizer.maxElevationIncrease);
+    for (const feet of [...new Set(elevations)].sort((a, b) => a - b)) {
+      retrofits.push({ type: 'ELEVATE', feet });
+    }
+
+    if (!request.mitigationFeatures.includes('FLOOD_VENTS')
+      && mitigationCredits.floodVents.foundations.includes(request.foundationType)) {
+      retrofits.push({ type: 'ADD_MITIGATION', feature: 'FLOOD_VENTS' });
+    }
+    if (!request.mitigationFeatures.includes('ELEVATED_UTILITIES')) {
+      retrofits.push({ type: 'ADD_MITIGATION', feature: 'ELEVATED_UTILITIES' });
+    }
+
+    return retrofits;
+  }
+
+  private static getRatedZone(request: AssessmentRequest): FloodZone {
+    return FloodZoneService.getFloodZone(request) ?? config.insurance.defaultFloodZone;
+  }
+
+  // NFIP coverage is capped, so values above the limits do not raise the premium
+  private static getCoverage(request: AssessmentRequest): { building: number; contents: number } {
+    const { coverageLimits } = this.getTable();
+    return {
+      building: Math.min(request.valuation?.buildingReplacementValue ?? 0, coverageLimits.building),
+      contents: Math.min(request.valuation?.contentsValue ?? 0, coverageLimits.contents),
+    };
+  }
+
+  private static getTable(): InsuranceRatingTable {
+    if (!this.table) {
+      this.loadRates();
+    }
+    return this.table!;
+  }
+}
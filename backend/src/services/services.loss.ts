@@ -0,0 +1,157 @@
+import { config } from '../config/config';
+import { loadDataFile } from '../data/data.loader';
+import { AssessmentRequest, LossEstimate, TimelineEntry } from '../schemas/schemas.assessment';
+import { DamageCurve, DamageReduction, DepthDamageTable, DepthDamageTableSchema } from '../schemas/schemas.loss';
+import { FloodHazardService } from './services.flood-hazard';
+import { MitigationService } from './services.mitigation';
+
+export class LossService {
+  private static table: DepthDamageTable | null = null;
+
+  /**
+   * Load and validate the depth-damage curves
+   */
+  static loadCurves(): void {
+    this.table = loadDataFile(config.loss.depthDamageCurves, DepthDamageTableSchema);
+  }
+
+  /**
+   * Expected annual flood loss in dollars for a given relative rise (feet above the baseline year).
+   * Integrates losses over the annual exceedance probability of each modeled return period.
+   */
+  static calculateExpectedAnnualLoss(request: AssessmentRequest, relativeRise = 0): number {
+    if (!request.valuation) {
+      return 0;
+    }
+
+    const firstFloorElevation = FloodHazardService.getFirstFloorElevation(request);
+    const events = FloodHazardService.getFloodElevations(request, relativeRise)
+      .map(({ returnPeriod, elevation }) => ({
+        probability: 1 / returnPeriod,
+        loss: this.calculateEventLoss(request, elevation - firstFloorElevation),
+      }))
+      .sort((a, b) => b.probability - a.probability);
+
+    // Trapezoids between modeled events, plus the rarest event's loss for all rarer floods
+    let expectedLoss = 0;
+    for (let i = 0; i < events.length - 1; i++) {
+      expectedLoss += 0.5 * (events[i].loss + events[i + 1].loss) * (events[i].probability - events[i + 1].probability);
+    }
+    const rarest = events[events.length - 1];
+    return expectedLoss + rarest.loss * rarest.probability;
+  }
+
+  /**
+   * Expected annual loss for every year from the first to the last timeline year.
+   * Relative rise is interpolated between timeline years so every year is counted.
+   */
+  static calculateAnnualLosses(
+    request: AssessmentRequest,
+    timeline: TimelineEntry[]
+  ): Array<{ year: number; expectedAnnualLoss: number }> {
+    const annualLosses: Array<{ year: number; expectedAnnualLoss: number }> = [];
+
+    timeline.forEach((entry, index) => {
+      const previous = timeline[index - 1];
+      const firstYear = previous ? previous.year + 1 : entry.year;
+
+      for (let year = firstYear; year <= entry.year; year++) {
+        const progress = previous ? (year - previous.year) / (entry.year - previous.year) : 1;
+        const relativeRise = previous
+          ? previous.relativeRise + (entry.relativeRise - previous.relativeRise) * progress
+          : entry.relativeRise;
+        annualLosses.push({ year, expectedAnnualLoss: this.calculateExpectedAnnualLoss(request, relativeRise) });
+      }
+    });
+
+    return annualLosses;
+  }
+
+  /**
+   * Expected annual and cumulative losses for each timeline year
+   */
+  static generateLossTimeline(request: AssessmentRequest, timeline: TimelineEntry[]): LossEstimate[] {
+    const annualLosses = this.calculateAnnualLosses(request, timeline);
+
+    return timeline.map(entry => {
+      const cumulativeLoss = annualLosses
+        .filter(({ year }) => year <= entry.year)
+        .reduce((sum, { expectedAnnualLoss }) => sum + expectedAnnualLoss, 0);
+
+      return {
+        expectedAnnualLoss: Math.round(this.calculateExpectedAnnualLoss(request, entry.relativeRise)),
+        cumulativeLoss: Math.round(cumulativeLoss),
+      };
+    });
+  }
+
+  /**
+   * Attach loss estimates to timeline entries when the request includes a valuation
+   */
+  static withLosses(request: AssessmentRequest, timeline: TimelineEntry[]): TimelineEntry[] {
+    if (!request.valuation) {
+      return timeline;
+    }
+
+    const losses = this.generateLossTimeline(request, timeline);
+    return timeline.map((entry, index) => ({ ...entry, loss: losses[index] }));
+  }
+
+  /**
+   * Building plus contents loss in dollars for a flood depth above the first floor
+   */
+  private static calculateEventLoss(request: AssessmentRequest, depth: number): number {
+    const { valuation } = request;
+    if (!valuation) {
+      return 0;
+    }
+
+    const curve = this.findCurve(request);
+    const { damageReductions } = this.getTable();
+
+    // Applicable mitigation measures scale damage down for floods within their effective depth
+    const reductions: DamageReduction[] = [
+      ...MitigationService.getApplicableFeatures(request).map(feature => damageReductions[feature]),
+      ...(request.utilityProtection ? [damageReductions.UTILITY_PROTECTION] : []),
+    ].filter(reduction => depth <= reduction.maxDepth);
+    const buildingFactor = reductions.reduce((factor, reduction) => factor * (1 - reduction.building), 1);
+    const contentsFactor = reductions.reduce((factor, reduction) => factor * (1 - reduction.contents), 1);
+
+    return (
+      valuation.buildingReplacementValue * this.interpolateDamage(curve.building, depth) * buildingFactor +
+      valuation.contentsValue * this.interpolateDamage(curve.contents, depth) * contentsFactor
+    );
+  }
+
+  private static findCurve(request: AssessmentRequest) {
+    const occupancy = request.occupancyType ?? config.loss.defaultOccupancy;
+    // The table schema guarantees one curve per occupancy/foundation combination
+    return this.getTable().curves.find(curve =>
+      curve.occupancies.includes(occupancy) && curve.foundations.includes(request.foundationType)
+    )!;
+  }
+
+  // Linear interpolation; no damage below the curve, full curve value above it
+  private static interpolateDamage(curve: DamageCurve, depth: number): number {
+    if (depth < curve[0][0]) {
+      return 0;
+    }
+
+    for (let i = 1; i < curve.length; i++) {
+      const [depthAbove, damageAbove] = curve[i];
+      if (depth <= depthAbove) {
+        const [depthBelow, damageBelow] = curve[i - 1];
+        return damageBelow + (damageAbove - damageBelow) * (depth - depthBelow) / (depthAbove - depthBelow);
+      }
+    }
+
+    return curve[curve.length - 1][1];
+  }
+
+  private static getTable(): DepthDamageTable {
+    if (!this.table) {
+      this.loadCurves();
+    }
+    return this.table!;
+  }
+}
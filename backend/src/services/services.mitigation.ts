@@ -0,0 +1,69 @@
+import { AssessmentRequest, MitigationEvaluation, MitigationFeature } from '../schemas/schemas.assessment';
+import { FloodZoneService } from './services.flood-zone';
+import { ProfileService } from './services.profiles';
+
+const formatFeature = (feature: MitigationFeature) =>
+  `${feature.charAt(0)}${feature.slice(1).toLowerCase().replace(/_/g, ' ')}`;
+
+export class MitigationService {
+  /**
+   * Score the requested mitigation features under the profile's rules: features that do not
+   * apply to the foundation or flood zone are ignored, the rest count with diminishing returns
+   * (highest points first), and reinforcing pairs add their synergy points before the cap
+   */
+  static evaluate(request: AssessmentRequest): MitigationEvaluation {
+    const profile = ProfileService.getProfile(request.scoringProfile);
+    const { applicability, diminishingReturns, synergies, conflicts } = profile.mitigationRules;
+
+    const floodZone = FloodZoneService.getFloodZone(request);
+
+    const ignored: MitigationEvaluation['ignored'] = [];
+    const applicable: MitigationFeature[] = [];
+    for (const feature of new Set(request.mitigationFeatures)) {
+      const rule = applicability[feature];
+      const outsideFoundations = rule?.foundations && !rule.foundations.includes(request.foundationType);
+      const outsideZones = rule?.zones && floodZone && !rule.zones.includes(floodZone);
+      if (rule && (outsideFoundations || outsideZones)) {
+        ignored.push({ feature, reason: rule.reason });
+      } else {
+        applicable.push(feature);
+      }
+    }
+
+    const applied = applicable
+      .map(feature => ({ feature, basePoints: profile.mitigationFeatureScores[feature] }))
+      .sort((a, b) => b.basePoints - a.basePoints)
+      .map((entry, index) => ({ ...entry, points: entry.basePoints * diminishingReturns ** index }));
+
+    const present = (features: MitigationFeature[]) => features.every(feature => applicable.includes(feature));
+    const appliedSynergies = synergies.filter(synergy => present(synergy.features));
+
+    const total = applied.reduce((sum, entry) => sum + entry.points, 0) +
+      appliedSynergies.reduce((sum, synergy) => sum + synergy.points, 0);
+
+    return {
+      score: Math.min(total, profile.mitigationScoreCap),
+      applied,
+      ignored,
+      synergies: appliedSynergies,
+      conflicts: conflicts.filter(conflict => present(conflict.features)),
+    };
+  }
+
+  /**
+   * The features that count for this building (requested and applicable)
+   */
+  static getApplicableFeatures(request: AssessmentRequest): MitigationFeature[] {
+    return this.evaluate(request).applied.map(entry => entry.feature);
+  }
+
+  /**
+   * Response warnings for ignored features and conflicting combinations
+   */
+  static getWarnings(evaluation: MitigationEvaluation): string[] {
+    return [
+      ...evaluation.ignored.map(entry => `${formatFeature(entry.feature)} ignored as not applicable: ${entry.reason}`),
+      ...evaluation.conflicts.map(conflict => conflict.warning),
+    ];
+  }
+}
@@ -0,0 +1,145 @@
+import { z } from 'zod';
+import { config } from '../config/config';
+import { AssessmentRequest, FoundationType, MitigationFeature, RoofMaterialType } from '../schemas/schemas.assessment';
+import {
+  OptimizationRequest,
+  OptimizationResponse,
+  Retrofit,
+  RetrofitPackage,
+} from '../schemas/schemas.retrofit';
+import { ProfileService } from './services.profiles';
+import { RetrofitService } from './services.retrofit';
+import { ScoringService } from './services.scoring';
+import { SeaLevelService } from './services.sea-level';
+import { WindService } from './services.wind';
+
+// Every subset of a list (including the empty subset)
+const subsets = <T>(items: T[]): T[][] =>
+  items.reduce<T[][]>((all, item) => [...all, ...all.map(subset => [...subset, item])], [[]]);
+
+export class OptimizerService {
+  /**
+   * Search retrofit combinations within the budget and return the Pareto-optimal packages
+   * trading upfront cost against the minimum combined flood and wind score through the target year
+   */
+  static optimize(request: OptimizationRequest): OptimizationResponse {
+    const { assessment, floorArea, budget } = request;
+    const targetScore = request.targetScore ?? config.thresholds.warningScore;
+    const simulationYears = SeaLevelService.resolveYears(assessment);
+    const targetYear = request.targetYear ?? Math.max(...simulationYears);
+
+    if (targetYear < Math.min(...simulationYears) || targetYear > Math.max(...simulationYears)) {
+      throw new z.ZodError([{
+        code: z.ZodIssueCode.custom,
+        path: ['targetYear'],
+        message: `Target year must be between ${Math.min(...simulationYears)} and ${Math.max(...simulationYears)}`,
+      }]);
+    }
+
+    const years = simulationYears.filter(year => year <= targetYear);
+    const affordable = this.generatePackages(assessment, request.maxElevationIncrease)
+      .map(retrofits => ({
+        retrofits,
+        cost: retrofits.reduce((sum, retrofit) => sum + RetrofitService.estimateCost(retrofit, floorArea), 0),
+      }))
+      .filter(({ cost }) => cost <= budget);
+
+    // Scoring runs synchronously, so the search size is capped rather than left to the budget
+    const { maxEvaluations } = config.optimizer;
+    if (affordable.length * years.length > maxEvaluations) {
+      throw new z.ZodError([{
+        code: z.ZodIssueCode.custom,
+        path: [],
+        message: `The search would score ${affordable.length} packages over ${years.length} years, more than ` +
+          `${maxEvaluations} evaluations; lower maxElevationIncrease or budget, or use an earlier targetYear or a coarser horizon`,
+      }]);
+    }
+
+    const candidates: RetrofitPackage[] = [];
+    for (const { retrofits, cost } of affordable) {
+      const minimumScore = this.calculateMinimumScore(RetrofitService.applyRetrofits(assessment, retrofits), years);
+      candidates.push({
+        retrofits,
+        descriptions: retrofits.map(retrofit => RetrofitService.describe(retrofit)),
+        cost: Math.round(cost),
+        minimumScore: Number(minimumScore.toFixed(2)),
+        meetsTarget: minimumScore >= targetScore,
+      });
+    }
+
+    // Walk packages from cheapest to most expensive, keeping each one that beats every cheaper score
+    const paretoFrontier: RetrofitPackage[] = [];
+    const byCost = [...candidates].sort((a, b) => a.cost - b.cost || b.minimumScore - a.minimumScore);
+    for (const candidate of byCost) {
+      const best = paretoFrontier[paretoFrontier.length - 1];
+      if (!best || candidate.minimumScore > best.minimumScore) {
+        paretoFrontier.push(candidate);
+      }
+    }
+
+    return {
+      targetScore,
+      targetYear,
+      budget,
+      evaluatedPackages: candidates.length,
+      paretoFrontier,
+      cheapestMeetingTarget: paretoFrontier.find(candidate => candidate.meetsTarget) ?? null,
+    };
+  }
+
+  /**
+   * Enumerate combinations of missing mitigation features, utility protection, higher-scoring
+   * foundations and roofs (by their wind score), and elevation increments
+   */
+  private static generatePackages(request: AssessmentRequest, maxElevationIncrease?: number): Retrofit[][] {
+    const profile = ProfileService.getProfile(request.scoringProfile);
+    const maxIncrease = maxElevationIncrease ?? config.optimizer.maxElevationIncrease;
+
+    const mitigationOptions = subsets(
+      MitigationFeature.options.filter(feature => !request.mitigationFeatures.includes(feature))
+    ).map(features => features.map((feature): Retrofit => ({ type: 'ADD_MITIGATION', feature })));
+
+    const utilityOptions: Retrofit[][] = request.utilityProtection ? [[]] : [[], [{ type: 'PROTECT_UTILITIES' }]];
+
+    const foundationOptions: Retrofit[][] = [
+      [],
+      ...FoundationType.options
+        .filter(foundation => profile.foundationScores[foundation] > profile.foundationScores[request.foundationType])
+        .map((foundationType): Retrofit[] => [{ type: 'CHANGE_FOUNDATION', foundationType }]),
+    ];
+
+    const roofOptions: Retrofit[][] = [
+      [],
+      ...RoofMaterialType.options
+        .filter(roof => profile.wind.roofMaterialScores[roof] > profile.wind.roofMaterialScores[request.roofMaterial])
+        .map((roofMaterial): Retrofit[] => [{ type: 'CHANGE_ROOF', roofMaterial }]),
+    ];
+
+    const elevationOptions: Retrofit[][] = Array.from({ length: maxIncrease + 1 }, (_, feet) =>
+      feet === 0 ? [] : [{ type: 'ELEVATE', feet }]
+    );
+
+    const packages: Retrofit[][] = [];
+    for (const elevation of elevationOptions) {
+      for (const foundation of foundationOptions) {
+        for (const roof of roofOptions) {
+          for (const utility of utilityOptions) {
+            for (const mitigation of mitigationOptions) {
+              packages.push([...elevation, ...foundation, ...roof, ...utility, ...mitigation]);
+            }
+          }
+        }
+      }
+    }
+    return packages;
+  }
+
+  // Lowest combined score over the years through the target year (the wind score does not change over time)
+  private static calculateMinimumScore(request: AssessmentRequest, years: number[]): number {
+    const windScore = WindService.assess(request).score;
+    return Math.min(
+      ...ScoringService.projectScores(request, years)
+        .map(score => ScoringService.calculateHazardScores(request, score, windScore).combined)
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { config } from '../config/config';
+import { loadDataFile } from '../data/data.loader';
+import { AssessmentRequest, PluvialPonding } from '../schemas/schemas.assessment';
+import { RainfallIdfTable, RainfallIdfTableSchema } from '../schemas/schemas.climate';
+import { HeatService } from './services.heat';
+import { ProfileService } from './services.profiles';
+
+const INCHES_PER_FOOT = 12;
+
+export class PluvialService {
+  private static table: RainfallIdfTable | null = null;
+
+  /**
+   * Load and validate the rainfall intensity-duration-frequency table
+   */
+  static loadTable(): void {
+    this.table = loadDataFile(config.pluvial.idfTable, RainfallIdfTableSchema);
+  }
+
+  /**
+   * First floor height above the surrounding grade in feet (the profile's default for the foundation type when omitted)
+   */
+  static getFirstFloorHeightAboveGrade(request: AssessmentRequest): number {
+    const { pluvial } = ProfileService.getProfile(request.scoringProfile);
+    return request.firstFloorHeightAboveGrade ?? pluvial.defaults.firstFloorHeightAboveGrade[request.foundationType];
+  }
+
+  /**
+   * Estimate rainfall ponding depth at the building for each storm return period in a year.
+   * Rainfall is uplifted along the request's warming scenario; runoff beyond the drainage
+   * capacity over each storm duration collects in the low parts of the block, and the
+   * deepest duration governs.
+   */
+  static getPondingDepths(request: AssessmentRequest, year: number): PluvialPonding[] {
+    const table = this.getTable();
+    const { pluvial } = ProfileService.getProfile(request.scoringProfile);
+    const warming = HeatService.getWarming(request.warmingScenario ?? config.heat.defaultScenario, year);
+    const uplift = 1 + table.upliftPerDegree * warming;
+
+    const imperviousness = request.imperviousness ?? pluvial.defaults.imperviousness;
+    const runoffCoefficient = pluvial.runoffCoefficient.pervious +
+      (pluvial.runoffCoefficient.impervious - pluvial.runoffCoefficient.pervious) * imperviousness;
+    const gradingFactor = pluvial.gradingFactors[request.lotGrading ?? pluvial.defaults.lotGrading];
+    const firstFloorHeight = this.getFirstFloorHeightAboveGrade(request);
+
+    return table.returnPeriods.map((returnPeriod, row) => {
+      const excessInches = Math.max(0, ...table.durations.map((duration, column) => {
+        const capacity = table.drainageCapacity.firstHour +
+          table.drainageCapacity.perAdditionalHour * Math.max(0, duration - 1);
+        return table.depths[row][column] * uplift * runoffCoefficient - capacity;
+      }));
+      const depth = (excessInches / INCHES_PER_FOOT) * table.pondingConcentration * gradingFactor;
+
+      return {
+        returnPeriod,
+        depth: Number(depth.toFixed(2)),
+        reachesFirstFloor: depth > 0 && depth >= firstFloorHeight,
+      };
+    });
+  }
+
+  private static getTable(): RainfallIdfTable {
+    if (!this.table) {
+      this.loadTable();
+    }
+    return this.table!;
+  }
+}
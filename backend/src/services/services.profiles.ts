@@ -0,0 +1,129 @@
+import { z } from 'zod';
+import { config } from '../config/config';
+import { listDataFiles, loadDataFile } from '../data/data.loader';
+import { ScoringProfileSelection } from '../schemas/schemas.assessment';
+import { ScoringProfile, ScoringProfileFile, ScoringProfileFileSchema } from '../schemas/schemas.profile';
+
+const PROFILES_DIRECTORY = 'profiles';
+
+// Compare two major.minor.patch versions numerically
+const compareVersions = (a: string, b: string): number => {
+  const partsA = a.split('.').map(Number);
+  const partsB = b.split('.').map(Number);
+  for (let i = 0; i < 3; i++) {
+    if (partsA[i] !== partsB[i]) {
+      return partsA[i] - partsB[i];
+    }
+  }
+  return 0;
+};
+
+// Hazard models a profile version may predate
+type InheritedSection = 'pluvial' | 'wind' | 'heat';
+
+export class ProfileService {
+  // Profiles keyed by id, each list sorted from newest to oldest version
+  private static profiles: Map<string, ScoringProfile[]> | null = null;
+
+  /**
+   * Load and validate every scoring profile in the data directory (one file per released version).
+   * Called at startup so malformed profiles fail fast instead of on the first request.
+   */
+  static loadProfiles(): void {
+    const files = new Map<string, ScoringProfileFile[]>();
+
+    for (const file of listDataFiles(PROFILES_DIRECTORY, '.json')) {
+      const profile = loadDataFile(file, ScoringProfileFileSchema);
+      const versions = files.get(profile.id) ?? [];
+
+      if (versions.some(existing => existing.version === profile.version)) {
+        throw new Error(`Duplicate scoring profile ${profile.id}@${profile.version} in ${file}`);
+      }
+
+      versions.push(profile);
+      versions.sort((a, b) => compareVersions(b.version, a.version));
+      files.set(profile.id, versions);
+    }
+
+    if (!files.has(config.scoring.defaultProfileId)) {
+      throw new Error(`Default scoring profile "${config.scoring.defaultProfileId}" was not found`);
+    }
+
+    this.profiles = new Map([...files].map(([id, versions]) => [id, this.inheritSections(versions)]));
+  }
+
+  /**
+   * List the available profiles and their versions
+   */
+  static listProfiles(): Array<{ id: string; name: string; versions: string[] }> {
+    return [...this.getProfiles().values()].map(versions => ({
+      id: versions[0].id,
+      name: versions[0].name,
+      versions: versions.map(profile => profile.version),
+    }));
+  }
+
+  /**
+   * Resolve the profile selected by a request, falling back to the default profile.
+   * Unknown ids or versions are reported as request validation errors.
+   */
+  static getProfile(selection?: ScoringProfileSelection): ScoringProfile {
+    const id = selection?.id ?? config.scoring.defaultProfileId;
+    const versions = this.getProfiles().get(id);
+
+    if (!versions) {
+      throw new z.ZodError([{
+        code: z.ZodIssueCode.custom,
+        path: ['scoringProfile', 'id'],
+        message: `Unknown scoring profile "${id}"`,
+      }]);
+    }
+
+    if (!selection?.version) {
+      return versions[0];
+    }
+
+    const profile = versions.find(candidate => candidate.version === selection.version);
+    if (!profile) {
+      throw new z.ZodError([{
+        code: z.ZodIssueCode.custom,
+        path: ['scoringProfile', 'version'],
+        message: `Scoring profile "${id}" has no version ${selection.version}`,
+      }]);
+    }
+
+    return profile;
+  }
+
+  // Fill the hazard models a version predates from the next newer version that has them
+  // (versions are sorted from newest to oldest)
+  private static inheritSections(versions: ScoringProfileFile[]): ScoringProfile[] {
+    const resolved: ScoringProfile[] = [];
+    for (const profile of versions) {
+      const newer = resolved[resolved.length - 1];
+      const inherit = <K extends InheritedSection>(section: K): ScoringProfile[K] => {
+        const value = profile[section] ?? newer?.[section];
+        if (!value) {
+          throw new Error(`Scoring profile ${profile.id}@${profile.version} has no ${section} section`);
+        }
+        return value as ScoringProfile[K];
+      };
+
+      resolved.push({
+        ...profile,
+        // Ponding depths are still reported, but only scored by versions that define the points
+        pluvial: profile.pluvial ?? { ...inherit('pluvial'), floodedFloorPoints: [] },
+        wind: inherit('wind'),
+        heat: inherit('heat'),
+      });
+    }
+    return resolved;
+  }
+
+  private static getProfiles(): Map<string, ScoringProfile[]> {
+    if (!this.profiles) {
+      this.loadProfiles();
+    }
+    return this.profiles!;
+  }
+}
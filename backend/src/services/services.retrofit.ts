@@ -0,0 +1,138 @@
+import { z } from 'zod';
+import { config } from '../config/config';
+import { loadDataFile } from '../data/data.loader';
+import { AssessmentRequest } from '../schemas/schemas.assessment';
+import { Retrofit, RetrofitCostCatalog, RetrofitCostCatalogSchema } from '../schemas/schemas.retrofit';
+import { FloodHazardService } from './services.flood-hazard';
+import { PluvialService } from './services.pluvial';
+
+export class RetrofitService {
+  private static catalog: RetrofitCostCatalog | null = null;
+
+  /**
+   * Load and validate the retrofit cost catalog
+   */
+  static loadCatalog(): void {
+    this.catalog = loadDataFile(config.costBenefit.costCatalog, RetrofitCostCatalogSchema);
+  }
+
+  /**
+   * Return a copy of the request with the retrofit applied
+   */
+  static applyRetrofit(request: AssessmentRequest, retrofit: Retrofit): AssessmentRequest {
+    switch (retrofit.type) {
+      case 'ELEVATE':
+        return {
+          ...request,
+          elevationAboveBFE: FloodHazardService.getElevationAboveBFE(request) + retrofit.feet,
+          firstFloorHeightAboveGrade: PluvialService.getFirstFloorHeightAboveGrade(request) + retrofit.feet,
+        };
+      case 'ADD_MITIGATION':
+        return {
+          ...request,
+          mitigationFeatures: [...new Set([...request.mitigationFeatures, retrofit.feature])],
+        };
+      case 'CHANGE_ROOF':
+        return { ...request, roofMaterial: retrofit.roofMaterial };
+      case 'CHANGE_FOUNDATION':
+        // Keep the floor height, which would otherwise follow the new foundation's default
+        return {
+          ...request,
+          foundationType: retrofit.foundationType,
+          firstFloorHeightAboveGrade: PluvialService.getFirstFloorHeightAboveGrade(request),
+        };
+      case 'PROTECT_UTILITIES':
+        return { ...request, utilityProtection: true };
+    }
+  }
+
+  /**
+   * Apply several retrofits in order
+   */
+  static applyRetrofits(request: AssessmentRequest, retrofits: Retrofit[]): AssessmentRequest {
+    return retrofits.reduce((current, retrofit) => this.applyRetrofit(current, retrofit), request);
+  }
+
+  /**
+   * Whether a retrofit changes the building, i.e. does not add a feature it already has
+   * or set its roof, foundation or utility protection to what it already is
+   */
+  static changesBuilding(request: AssessmentRequest, retrofit: Retrofit): boolean {
+    switch (retrofit.type) {
+      case 'ELEVATE':
+        return true;
+      case 'ADD_MITIGATION':
+        return !request.mitigationFeatures.includes(retrofit.feature);
+      case 'CHANGE_ROOF':
+        return request.roofMaterial !== retrofit.roofMaterial;
+      case 'CHANGE_FOUNDATION':
+        return request.foundationType !== retrofit.foundationType;
+      case 'PROTECT_UTILITIES':
+        return !request.utilityProtection;
+    }
+  }
+
+  /**
+   * Reject retrofits that would leave the building unchanged, which would otherwise be priced
+   * with nothing to show for it
+   */
+  static assertChangesBuilding(request: AssessmentRequest, retrofits: Retrofit[], path: Array<string | number>): void {
+    const issues = retrofits.flatMap((retrofit, index): z.ZodIssue[] => this.changesBuilding(request, retrofit) ? [] : [{
+      code: z.ZodIssueCode.custom,
+      path: [...path, index],
+      message: `"${this.describe(retrofit)}" would not change the building; remove it from the retrofits`,
+    }]);
+    if (issues.length > 0) {
+      throw new z.ZodError(issues);
+    }
+  }
+
+  /**
+   * Upfront cost in dollars from the cost catalog
+   */
+  static estimateCost(retrofit: Retrofit, floorArea: number): number {
+    const catalog = this.getCatalog();
+
+    switch (retrofit.type) {
+      case 'ELEVATE': {
+        const { fixedCost, costPerSqFt, costPerSqFtPerFoot } = catalog.elevation;
+        return fixedCost + floorArea * (costPerSqFt + costPerSqFtPerFoot * retrofit.feet);
+      }
+      case 'ADD_MITIGATION': {
+        const { fixedCost, costPerSqFt } = catalog.mitigationFeatures[retrofit.feature];
+        return fixedCost + floorArea * costPerSqFt;
+      }
+      case 'CHANGE_ROOF':
+        return floorArea * catalog.roofAreaFactor * catalog.roofMaterials[retrofit.roofMaterial].costPerSqFt;
+      case 'CHANGE_FOUNDATION':
+        return floorArea * catalog.foundations[retrofit.foundationType].costPerSqFt;
+      case 'PROTECT_UTILITIES':
+        return catalog.utilityProtection.fixedCost;
+    }
+  }
+
+  /**
+   * Human-readable description of a retrofit
+   */
+  static describe(retrofit: Retrofit): string {
+    switch (retrofit.type) {
+      case 'ELEVATE':
+        return `Elevate the structure by ${retrofit.feet} ft`;
+      case 'ADD_MITIGATION':
+        return `Add ${retrofit.feature.toLowerCase().replace(/_/g, ' ')}`;
+      case 'CHANGE_ROOF':
+        return `Replace the roof with ${retrofit.roofMaterial.toLowerCase().replace(/_/g, ' ')}`;
+      case 'CHANGE_FOUNDATION':
+        return `Upgrade the foundation to ${retrofit.foundationType.toLowerCase().replace(/_/g, ' ')}`;
+      case 'PROTECT_UTILITIES':
+        return 'Protect utilities against flooding';
+    }
+  }
+
+  private static getCatalog(): RetrofitCostCatalog {
+    if (!this.catalog) {
+      this.loadCatalog();
+    }
+    return this.catalog!;
+  }
+}
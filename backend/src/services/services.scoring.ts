@@ -1,133 +1,407 @@
+import { z } from 'zod';
 import { config } from '../config/config';
+import { createRandom, sampleNormal, sampleUniform } from '../lib/lib.random';
+import { percentile } from '../lib/lib.stats';
 import {
   AssessmentRequest,
-  FoundationType,
-  MaterialType,
-  RoofMaterialType,
-  MitigationFeature
+  FloodProbability,
+  HazardScores,
+  ProbabilisticTimeline,
+  ScoreBreakdown,
+  SeaLevelScenario,
+  TimelineEntry
 } from '../schemas/schemas.assessment';
+import { ScoringProfile } from '../schemas/schemas.profile';
+import { FloodHazardService } from './services.flood-hazard';
+import { FloodZoneService } from './services.flood-zone';
+import { MitigationService } from './services.mitigation';
+import { PluvialService } from './services.pluvial';
+import { ProfileService } from './services.profiles';
+import { SeaLevelService } from './services.sea-level';
+import { SubsidenceService } from './services.subsidence';
 
-// Scoring factors for different components
-const foundationScores: Record<FoundationType, number> = {
-  SLAB_ON_GRADE: 40,
-  PIER_AND_BEAM: 60,
-  PILE_FOUNDATION: 80,
-  ELEVATED_FOUNDATION: 100,
-};
-
-const materialScores: Record<MaterialType, number> = {
-  CONCRETE: 100,
-  STEEL_FRAME: 80,
-  WOOD_FRAME: 60,
-  MASONRY: 70,
-  MIXED: 50,
-};
-
-// Source-based roof material scoring with climate resilience evidence
-const roofMaterialScores: Record<RoofMaterialType, number> = {
-  METAL: 80,           // FEMA P-424: Superior wind resistance (140+ mph), heat reflection, 40-70 year lifespan
-  ASPHALT_SHINGLE: 50, // IBHS research: Higher vulnerability to wind uplift and hail, shorter lifespan, heat absorption
-  TILE: 75,            // Florida Building Code: Hurricane resistance, coastal durability, fire resistance
-};
-
-const mitigationFeatureScores: Record<MitigationFeature, number> = {
-  FLOOD_VENTS: 20,
-  WATERPROOFING: 25,
-  BACKFLOW_PREVENTION: 20,
-  ELEVATED_UTILITIES: 20,
-  FLOOD_BARRIERS: 15,
-};
+// Multipliers applied to the projected rise components (1 = central estimate)
+interface RiseFactors {
+  seaLevelRise: number;
+  subsidence: number;
+}
+
+const CENTRAL_RISE_FACTORS: RiseFactors = { seaLevelRise: 1, subsidence: 1 };
 
 export class ScoringService {
   /**
    * Calculate the current resilience score based on building parameters
    */
-  static calculateCurrentScore(request: AssessmentRequest): number {
-    const { scoringWeights } = config;
+  static calculateCurrentScore(
+    request: AssessmentRequest,
+    year: number = config.baselineFloodParameters.baselineYear
+  ): number {
+    return this.calculateScoreBreakdown(request, year).total;
+  }
+
+  /**
+   * Calculate the resilience score with each component's raw sub-score,
+   * effective weight and weighted contribution.
+   * The year sets the rainfall climate used by the pluvial ponding adjustment.
+   */
+  static calculateScoreBreakdown(
+    request: AssessmentRequest,
+    year: number = config.baselineFloodParameters.baselineYear
+  ): ScoreBreakdown {
+    const profile = ProfileService.getProfile(request.scoringProfile);
+    const { weights } = profile;
     
-    // Calculate elevation score (linear scale, max at 10 feet above BFE)
-    const elevationScore = Math.min(request.elevationAboveBFE * 10, 100);
+    let elevationScore = this.calculateElevationScore(request, profile);
+    
+    // Zone X sites are outside the mapped floodplain, so a low elevation above BFE is less critical
+    if (FloodZoneService.getFloodZone(request) === 'X') {
+      elevationScore = Math.max(elevationScore, profile.floodZoneRules.zoneXMinimumElevationScore);
+    }
     
     // Calculate foundation score
-    const foundationScore = foundationScores[request.foundationType];
+    const foundationScore = profile.foundationScores[request.foundationType];
     
-    // Calculate materials score (average of all materials)
+    // Calculate materials score (average of the assemblies weighted by share and location)
+    const materialWeights = request.materials.map(
+      assembly => assembly.share * profile.materialLocationWeights[assembly.location]
+    );
     const materialsScore = request.materials.reduce(
-      (sum, material) => sum + materialScores[material], 
+      (sum, assembly, index) => sum + profile.materialScores[assembly.material] * materialWeights[index],
       0
-    ) / request.materials.length;
-    
-    // Calculate roof material score based on climate resilience properties
-    const roofMaterialScore = roofMaterialScores[request.roofMaterial];
+    ) / materialWeights.reduce((sum, weight) => sum + weight, 0);
     
-    // Calculate mitigation features score (sum of all features, capped at 100)
-    const mitigationScore = Math.min(
-      request.mitigationFeatures.reduce(
-        (sum, feature) => sum + mitigationFeatureScores[feature],
-        0
-      ),
-      100
-    );
+    // Calculate mitigation features score (applicable features with diminishing returns and synergies)
+    const mitigationScore = MitigationService.evaluate(request).score;
     
     // Calculate utility protection score
     const utilityScore = request.utilityProtection ? 100 : 0;
     
-    // Calculate weighted total (including roof material as part of materials weight)
-    const combinedMaterialsScore = (materialsScore * 0.7) + (roofMaterialScore * 0.3); // 70% structural, 30% roof
+    // Weight each component (profiles before 2.0.0 give the roof material a share of the materials weight)
+    const roofShare = profile.roofShareOfMaterials ?? 0;
+    const weightedComponents: Array<Omit<ScoreBreakdown['components'][number], 'contribution'>> = [
+      { component: 'ELEVATION', rawScore: elevationScore, weight: weights.elevation },
+      { component: 'FOUNDATION', rawScore: foundationScore, weight: weights.foundationType },
+      { component: 'STRUCTURAL_MATERIALS', rawScore: materialsScore, weight: weights.materials * (1 - roofShare) },
+      ...(profile.roofMaterialScores ? [{
+        component: 'ROOF_MATERIAL' as const,
+        rawScore: profile.roofMaterialScores[request.roofMaterial],
+        weight: weights.materials * roofShare,
+      }] : []),
+      { component: 'MITIGATION_FEATURES', rawScore: mitigationScore, weight: weights.mitigationFeatures },
+      { component: 'UTILITY_PROTECTION', rawScore: utilityScore, weight: weights.utilityProtection },
+    ];
+    const components = weightedComponents.map(part => ({
+      ...part,
+      contribution: part.rawScore * part.weight,
+    }));
+    
+    const adjustments = this.calculateAdjustments(request, profile, year);
+    const total = components.reduce((sum, part) => sum + part.contribution, 0) +
+      adjustments.reduce((sum, adjustment) => sum + adjustment.points, 0);
     
-    return (
-      elevationScore * scoringWeights.elevation +
-      foundationScore * scoringWeights.foundationType +
-      combinedMaterialsScore * scoringWeights.materials +
-      mitigationScore * scoringWeights.mitigationFeatures +
-      utilityScore * scoringWeights.utilityProtection
+    return {
+      total: Math.min(Math.max(total, 0), 100),
+      components,
+      adjustments,
+    };
+  }
+
+  /**
+   * Elevation sub-score using the profile's method: linear in freeboard above the BFE, or
+   * log-linear in the first floor's annual exceedance probability
+   */
+  private static calculateElevationScore(request: AssessmentRequest, profile: ScoringProfile): number {
+    const { elevation } = profile;
+
+    if (elevation.method === 'FREEBOARD') {
+      return Math.min(Math.max(FloodHazardService.getElevationAboveBFE(request) / elevation.fullScoreFreeboard, 0), 1) * 100;
+    }
+
+    const probability = FloodHazardService.getFirstFloorExceedanceProbability(request);
+    const fraction = Math.log(elevation.zeroScoreProbability / probability) /
+      Math.log(elevation.zeroScoreProbability / elevation.fullScoreProbability);
+    return Math.min(Math.max(fraction, 0), 1) * 100;
+  }
+
+  /**
+   * Rule-based point adjustments for flood zone, building use, construction era and rainfall ponding
+   */
+  private static calculateAdjustments(
+    request: AssessmentRequest,
+    profile: ScoringProfile,
+    year: number
+  ): ScoreBreakdown['adjustments'] {
+    const adjustments: ScoreBreakdown['adjustments'] = [];
+    const { floodZoneRules } = profile;
+    const floodZone = FloodZoneService.getFloodZone(request);
+
+    // V-zone rules: slabs are not permitted, and an elevated building's lower level
+    // is treated as enclosed unless it has breakaway walls or is declared open
+    if (floodZone && floodZoneRules.coastalHighHazardZones.includes(floodZone)) {
+      if (request.foundationType === 'SLAB_ON_GRADE') {
+        adjustments.push({
+          rule: 'COASTAL_ZONE_SLAB',
+          description: `Slab-on-grade foundation in coastal high hazard zone ${floodZone}`,
+          points: floodZoneRules.slabInCoastalZonePoints,
+        });
+      } else if (request.breakawayWalls === false && request.enclosureArea !== 0) {
+        adjustments.push({
+          rule: 'COASTAL_ZONE_ENCLOSURE',
+          description: `Lower-level enclosure without breakaway walls in zone ${floodZone}`,
+          points: floodZoneRules.enclosureWithoutBreakawayPoints,
+        });
+      }
+    }
+
+    // Building use: refuge on upper stories, basements, use of the lower level and occupants
+    const { buildingUse } = profile;
+    if (request.stories !== undefined && request.stories >= buildingUse.verticalEvacuation.minStories) {
+      adjustments.push({
+        rule: 'VERTICAL_EVACUATION',
+        description: `${request.stories} stories allow occupants to shelter above floodwater`,
+        points: buildingUse.verticalEvacuation.points,
+      });
+    }
+
+    if (request.hasBasement) {
+      adjustments.push({
+        rule: 'BASEMENT',
+        description: 'Basement below grade floods before the rest of the building',
+        points: buildingUse.basementPoints,
+      });
+    }
+
+    if (request.lowerLevelUse && request.foundationType !== 'SLAB_ON_GRADE' && buildingUse.lowerLevelUsePoints[request.lowerLevelUse] !== 0) {
+      adjustments.push({
+        rule: 'LOWER_LEVEL_USE',
+        description: `Lower level below the first floor used for ${request.lowerLevelUse.toLowerCase().replace(/_/g, ' ')}`,
+        points: buildingUse.lowerLevelUsePoints[request.lowerLevelUse],
+      });
+    }
+
+    const occupancy = request.occupancyType ?? config.loss.defaultOccupancy;
+    if (buildingUse.occupancyPoints[occupancy] !== 0) {
+      adjustments.push({
+        rule: 'OCCUPANCY',
+        description: `${occupancy.charAt(0)}${occupancy.slice(1).toLowerCase().replace(/_/g, ' ')} occupancy`,
+        points: buildingUse.occupancyPoints[occupancy],
+      });
+    }
+
+    // Construction era (pre-FIRM vs post-FIRM)
+    const era = this.findConstructionEra(request, profile);
+    if (era && era.points !== 0) {
+      adjustments.push({
+        rule: 'CONSTRUCTION_ERA',
+        description: `${era.label} construction (built ${request.yearBuilt})`,
+        points: era.points,
+      });
+    }
+
+    // Rainfall ponding that reaches the first floor, scored by the most frequent storm that causes it
+    const flooding = PluvialService.getPondingDepths(request, year).find(ponding => ponding.reachesFirstFloor);
+    const pondingRule = flooding && [...profile.pluvial.floodedFloorPoints]
+      .sort((a, b) => a.returnPeriod - b.returnPeriod)
+      .find(rule => rule.returnPeriod >= flooding.returnPeriod);
+    if (flooding && pondingRule) {
+      adjustments.push({
+        rule: 'PLUVIAL_PONDING',
+        description: `${flooding.depth} ft of rainfall ponding reaches the first floor in a ${flooding.returnPeriod}-year storm`,
+        points: pondingRule.points,
+      });
+    }
+
+    return adjustments;
+  }
+
+  private static findConstructionEra(request: AssessmentRequest, profile: ScoringProfile) {
+    if (request.yearBuilt === undefined) {
+      return undefined;
+    }
+    const yearBuilt = request.yearBuilt;
+    return profile.constructionEras.find(era =>
+      (era.fromYear === undefined || yearBuilt >= era.fromYear) &&
+      (era.toYear === undefined || yearBuilt < era.toYear)
     );
   }
 
+  /**
+   * Combine the flood and wind scores using the profile's hazard weights
+   */
+  static calculateHazardScores(request: AssessmentRequest, floodScore: number, windScore: number): HazardScores {
+    const { hazardWeights } = ProfileService.getProfile(request.scoringProfile);
+    return {
+      flood: floodScore,
+      wind: windScore,
+      combined: floodScore * hazardWeights.flood + windScore * hazardWeights.wind,
+    };
+  }
+
   /**
    * Generate timeline of projected scores and BFE
-   * Includes projections through 2055 with 3.6 inches/year sea level rise
+   * Projects BFE over the request's horizon along its primary sea level rise scenario,
+   * adding local land subsidence so the BFE is relative to the sinking building
    */
-  static generateTimeline(request: AssessmentRequest) {
-    const { baselineFloodParameters } = config;
-    const timeline = [];
-
-    // Ensure we have all required simulation years including 2045 and 2055
-    const simulationYears = [...baselineFloodParameters.simulationYears].sort((a: number, b: number) => a - b);
-
-    for (const year of simulationYears) {
-      // Use 2025 as baseline year and user's BFE as baseline value
-      const yearsFrom2025 = year - 2025;
-      const projectedBFE = request.currentBFE +
-        (yearsFrom2025 * baselineFloodParameters.annualRiseRate);
+  static generateTimeline(request: AssessmentRequest): TimelineEntry[] {
+    const [scenario] = SeaLevelService.resolveScenarios(request);
+    const timeline: TimelineEntry[] = [];
+    const baseFloodElevation = FloodZoneService.getBaseFloodElevation(request);
+    const elevationAboveBFE = FloodHazardService.getElevationAboveBFE(request);
+
+    for (const year of SeaLevelService.resolveYears(request)) {
+      // Scenario curves are relative to 2025, so the user's BFE is the baseline value
+      const { seaLevelRise, subsidence, relativeRise } = this.projectRise(request, scenario, year);
+      const projectedBFE = baseFloodElevation + relativeRise;
       
       // Adjust elevation score based on projected BFE rise from user's baseline
-      const bfeRise = projectedBFE - request.currentBFE;
+      // (the first floor may end up below the projected BFE)
       const adjustedRequest = {
         ...request,
-        elevationAboveBFE: Math.max(0, request.elevationAboveBFE - bfeRise)
+        elevationAboveBFE: elevationAboveBFE - relativeRise
       };
 
+      const breakdown = this.calculateScoreBreakdown(adjustedRequest, year);
+
       timeline.push({
         year,
+        seaLevelRise: Number(seaLevelRise.toFixed(2)),
+        subsidence: Number(subsidence.toFixed(2)),
+        relativeRise: Number(relativeRise.toFixed(2)),
         projectedBFE: Number(projectedBFE.toFixed(2)), // Round to 2 decimal places for consistency
-        score: this.calculateCurrentScore(adjustedRequest),
-        recommendations: this.generateRecommendations(adjustedRequest, projectedBFE)
+        firstFloorFloodProbability: this.calculateFloodProbability(request, scenario, year),
+        score: breakdown.total,
+        breakdown,
+        pluvialPonding: PluvialService.getPondingDepths(request, year),
+        recommendations: this.generateRecommendations(adjustedRequest, projectedBFE, year)
       });
     }
 
     return timeline;
   }
 
+  /**
+   * Projected scores for the given years along the primary scenario, without the timeline's
+   * flood probabilities, ponding depths and recommendations (for searches over many designs)
+   */
+  static projectScores(request: AssessmentRequest, years: number[]): number[] {
+    const [scenario] = SeaLevelService.resolveScenarios(request);
+    const elevationAboveBFE = FloodHazardService.getElevationAboveBFE(request);
+    return years.map(year => {
+      const { relativeRise } = this.projectRise(request, scenario, year);
+      return this.calculateCurrentScore({ ...request, elevationAboveBFE: elevationAboveBFE - relativeRise }, year);
+    });
+  }
+
+  /**
+   * Generate P10/P50/P90 bands of score and BFE per year by sampling the sea level rise
+   * curve, the local subsidence rate and survey error on the building's elevation
+   */
+  static generateProbabilisticTimeline(request: AssessmentRequest): ProbabilisticTimeline {
+    const { uncertainty } = config;
+    const [scenario] = SeaLevelService.resolveScenarios(request);
+    const samples = request.uncertainty?.samples ?? uncertainty.samples;
+    const seed = request.uncertainty?.seed ?? Math.floor(Math.random() * 2 ** 31);
+    const elevationError = request.uncertainty?.elevationError ?? uncertainty.elevationError;
+    const random = createRandom(seed);
+
+    const simulationYears = SeaLevelService.resolveYears(request);
+    if (samples * simulationYears.length > uncertainty.maxSampleYears) {
+      throw new z.ZodError([{
+        code: z.ZodIssueCode.custom,
+        path: ['uncertainty', 'samples'],
+        message: `${samples} samples over ${simulationYears.length} timeline years exceed ${uncertainty.maxSampleYears} ` +
+          'sampled years; use fewer samples or a coarser horizon',
+      }]);
+    }
+    const scores = simulationYears.map((): number[] => []);
+    const projectedBFEs = simulationYears.map((): number[] => []);
+    const baseFloodElevation = FloodZoneService.getBaseFloodElevation(request);
+    const surveyedElevationAboveBFE = FloodHazardService.getElevationAboveBFE(request);
+
+    for (let i = 0; i < samples; i++) {
+      // Each sample is one coherent trajectory across all years
+      const factors: RiseFactors = {
+        seaLevelRise: Math.max(0, sampleNormal(random, 1, uncertainty.seaLevelRiseSpread)),
+        subsidence: Math.max(0, sampleNormal(random, 1, uncertainty.subsidenceSpread)),
+      };
+      const elevationAboveBFE = surveyedElevationAboveBFE + sampleUniform(random, -elevationError, elevationError);
+
+      simulationYears.forEach((year, index) => {
+        const { relativeRise } = this.projectRise(request, scenario, year, factors);
+        projectedBFEs[index].push(baseFloodElevation + relativeRise);
+        scores[index].push(this.calculateCurrentScore({
+          ...request,
+          elevationAboveBFE: elevationAboveBFE - relativeRise,
+        }, year));
+      });
+    }
+
+    const band = (values: number[]) => ({
+      p10: Number(percentile(values, 10).toFixed(2)),
+      p50: Number(percentile(values, 50).toFixed(2)),
+      p90: Number(percentile(values, 90).toFixed(2)),
+    });
+
+    return {
+      samples,
+      seed,
+      timeline: simulationYears.map((year, index) => ({
+        year,
+        score: band(scores[index]),
+        projectedBFE: band(projectedBFEs[index]),
+      })),
+    };
+  }
+
+  /**
+   * Annual chance of flooding above the first floor in a year, and the chance of at least one
+   * such flood over a mortgage starting that year as relative rise keeps increasing
+   */
+  private static calculateFloodProbability(
+    request: AssessmentRequest,
+    scenario: SeaLevelScenario,
+    year: number
+  ): FloodProbability {
+    const annualProbability = (projectionYear: number) => FloodHazardService.getFirstFloorExceedanceProbability(
+      request,
+      this.projectRise(request, scenario, projectionYear).relativeRise
+    );
+
+    let noFloodProbability = 1;
+    for (let offset = 0; offset < config.baselineFloodParameters.mortgageTermYears; offset++) {
+      noFloodProbability *= 1 - annualProbability(year + offset);
+    }
+
+    return {
+      annual: Number(annualProbability(year).toFixed(4)),
+      overMortgage: Number((1 - noFloodProbability).toFixed(4)),
+    };
+  }
+
+  /**
+   * Project sea level rise, subsidence and their combined relative rise (feet) for a year
+   */
+  private static projectRise(
+    request: AssessmentRequest,
+    scenario: SeaLevelScenario,
+    year: number,
+    factors: RiseFactors = CENTRAL_RISE_FACTORS
+  ) {
+    const seaLevelRise = SeaLevelService.getRise(scenario, year) * factors.seaLevelRise;
+    const subsidence = SubsidenceService.getSubsidence(request.location, year) * factors.subsidence;
+    return { seaLevelRise, subsidence, relativeRise: seaLevelRise + subsidence };
+  }
+
   /**
    * Generate recommendations based on score and parameters
    */
   private static generateRecommendations(
     request: AssessmentRequest, 
-    projectedBFE: number
+    projectedBFE: number,
+    year: number
   ): string[] {
     const recommendations: string[] = [];
-    const score = this.calculateCurrentScore(request);
+    const score = this.calculateCurrentScore(request, year);
 
     if (score < config.thresholds.criticalScore) {
       recommendations.push('CRITICAL: Immediate action required to improve flood resilience');
@@ -135,7 +409,8 @@ export class ScoringService {
       recommendations.push('WARNING: Consider improvements to enhance flood resilience');
     }
 
-    if (request.elevationAboveBFE < 3) {
+    const elevationAboveBFE = FloodHazardService.getElevationAboveBFE(request);
+    if (elevationAboveBFE < 3) {
       recommendations.push(`Consider elevating the structure above projected BFE of ${projectedBFE.toFixed(1)} feet`);
     }
 
@@ -143,21 +418,56 @@ export class ScoringService {
       recommendations.push('Consider upgrading to a more flood-resistant foundation type');
     }
 
-    if (request.materials.includes('WOOD_FRAME')) {
+    if (request.materials.some(assembly => assembly.material === 'WOOD_FRAME' && assembly.location === 'BELOW_DFE')) {
+      recommendations.push('Replace wood framing below the design flood elevation with flood damage-resistant materials such as concrete or masonry');
+    } else if (request.materials.some(assembly => assembly.material === 'WOOD_FRAME' && assembly.location === 'THROUGHOUT')) {
       recommendations.push('Consider using more flood-resistant materials for critical components');
     }
 
-    // Roof material specific recommendations
-    if (request.roofMaterial === 'ASPHALT_SHINGLE') {
-      recommendations.push('Consider upgrading to metal or tile roofing for better wind resistance and longevity');
+    if (!request.utilityProtection) {
+      recommendations.push('Implement utility protection measures to prevent flood damage');
     }
-    
-    if (request.roofMaterial === 'METAL' && request.foundationType === 'SLAB_ON_GRADE') {
-      recommendations.push('Metal roofing provides excellent resilience - consider pairing with elevated foundation for maximum protection');
+
+    // Flood zone and construction era recommendations
+    const profile = ProfileService.getProfile(request.scoringProfile);
+    const floodZone = FloodZoneService.getFloodZone(request);
+    if (floodZone && profile.floodZoneRules.coastalHighHazardZones.includes(floodZone)) {
+      if (request.foundationType === 'SLAB_ON_GRADE') {
+        recommendations.push(`Zone ${floodZone} requires an open pile or column foundation - slab-on-grade is not permitted for new construction`);
+      } else if (request.breakawayWalls === false && request.enclosureArea !== 0) {
+        recommendations.push(`Use breakaway walls or leave the lower level open to meet zone ${floodZone} requirements`);
+      }
     }
 
-    if (!request.utilityProtection) {
-      recommendations.push('Implement utility protection measures to prevent flood damage');
+    // Building use recommendations
+    if (request.hasBasement) {
+      recommendations.push('Fill the basement or move utilities, storage and living space out of it - basements flood first and are the costliest part of a flood claim');
+    }
+
+    if (request.lowerLevelUse === 'LIVING_SPACE' && request.foundationType !== 'SLAB_ON_GRADE') {
+      recommendations.push('Convert finished living space below the first floor to parking, storage or building access, the only uses permitted below the BFE');
+    }
+
+    if (request.stories === 1 && elevationAboveBFE < 0) {
+      recommendations.push(`The single-story first floor is below the projected BFE of ${projectedBFE.toFixed(1)} feet with no upper story for refuge - provide attic or roof access and an evacuation plan`);
+    }
+
+    if (request.occupancyType === 'SCHOOL') {
+      recommendations.push('Schools shelter occupants who cannot evacuate on their own - adopt a flood emergency plan and elevate to ASCE 24 Flood Design Class 3 (BFE + 2 ft in V zones)');
+    }
+
+    if (floodZone === 'X') {
+      recommendations.push('Zone X is outside the mapped floodplain, but many New Orleans flood claims come from zone X - keep utilities and finishes above expected ponding depths');
+    }
+
+    const era = this.findConstructionEra(request, profile);
+    if (era?.recommendation) {
+      recommendations.push(era.recommendation);
+    }
+
+    const flooding = PluvialService.getPondingDepths(request, year).find(ponding => ponding.reachesFirstFloor);
+    if (flooding) {
+      recommendations.push(`Rainfall ponding of ${flooding.depth.toFixed(1)} ft in a ${flooding.returnPeriod}-year storm would reach the first floor - regrade the lot away from the building, reduce paved area or raise the floor above ${PluvialService.getFirstFloorHeightAboveGrade(request).toFixed(1)} ft above grade`);
     }
 
     return recommendations;
@@ -0,0 +1,93 @@
+import { config } from '../config/config';
+import { loadDataFile } from '../data/data.loader';
+import { AssessmentRequest, SeaLevelScenario } from '../schemas/schemas.assessment';
+import { SeaLevelRiseTable, SeaLevelRiseTableSchema } from '../schemas/schemas.climate';
+
+const SCENARIOS_FILE = 'sea-level-rise/scenarios.json';
+
+export class SeaLevelService {
+  private static table: SeaLevelRiseTable | null = null;
+
+  /**
+   * Load and validate the sea level rise scenario curves
+   */
+  static loadScenarios(): void {
+    this.table = loadDataFile(SCENARIOS_FILE, SeaLevelRiseTableSchema);
+  }
+
+  /**
+   * List the available scenarios and the years they cover
+   */
+  static listScenarios(): Array<{ scenario: SeaLevelScenario; label: string; firstYear: number; lastYear: number }> {
+    const table = this.getTable();
+    return SeaLevelScenario.options.map(scenario => ({
+      scenario,
+      label: table.scenarios[scenario].label,
+      firstYear: table.years[0],
+      lastYear: table.years[table.years.length - 1],
+    }));
+  }
+
+  /**
+   * Resolve the scenarios requested for an assessment.
+   * The first entry is the primary scenario used for the main timeline.
+   */
+  static resolveScenarios(request: AssessmentRequest): SeaLevelScenario[] {
+    const primary = request.scenario ?? request.scenarios?.[0] ?? config.baselineFloodParameters.defaultScenario;
+    return [...new Set([primary, ...(request.scenarios ?? [])])];
+  }
+
+  /**
+   * Resolve the timeline years requested for an assessment: a custom list, or start to end year
+   * in steps (the end year is always included), falling back to the configured simulation years
+   */
+  static resolveYears(request: AssessmentRequest): number[] {
+    const { baselineYear, simulationYears, simulationStep } = config.baselineFloodParameters;
+    const { horizon } = request;
+
+    if (!horizon) {
+      return [...simulationYears];
+    }
+    if (horizon.years) {
+      return [...horizon.years];
+    }
+
+    const startYear = horizon.startYear ?? baselineYear;
+    const endYear = horizon.endYear ?? simulationYears[simulationYears.length - 1];
+    const step = horizon.step ?? simulationStep;
+    const years: number[] = [];
+    for (let year = startYear; year < endYear; year += step) {
+      years.push(year);
+    }
+    years.push(endYear);
+    return years;
+  }
+
+  /**
+   * Projected sea level rise in feet between the baseline year the BFE describes and the given year.
+   * Curves measured from another table baseline year are shifted to start from zero at that year.
+   */
+  static getRise(scenario: SeaLevelScenario, year: number): number {
+    return this.getCurveValue(scenario, year) -
+      this.getCurveValue(scenario, config.baselineFloodParameters.baselineYear);
+  }
+
+  // Curve value in feet above the table's baseline year; years outside the table are clamped
+  private static getCurveValue(scenario: SeaLevelScenario, year: number): number {
+    const table = this.getTable();
+    const values = table.scenarios[scenario].riseByYear;
+    const index = Math.min(Math.max(year - table.years[0], 0), table.years.length - 1);
+    const lower = Math.floor(index);
+    const upper = Math.min(lower + 1, values.length - 1);
+
+    // Interpolate between annual values for fractional years
+    return values[lower] + (values[upper] - values[lower]) * (index - lower);
+  }
+
+  private static getTable(): SeaLevelRiseTable {
+    if (!this.table) {
+      this.loadScenarios();
+    }
+    return this.table!;
+  }
+}
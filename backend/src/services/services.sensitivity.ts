@@ -0,0 +1,166 @@
+import { z } from 'zod';
+import {
+  AssessmentRequest,
+  FoundationType,
+  MaterialType,
+  MitigationFeature,
+  SeaLevelScenario,
+} from '../schemas/schemas.assessment';
+import { SensitivityFactor, SensitivityRequest, SensitivityResponse } from '../schemas/schemas.sensitivity';
+import { FloodHazardService } from './services.flood-hazard';
+import { ScoringService } from './services.scoring';
+import { SeaLevelService } from './services.sea-level';
+
+const ELEVATION_STEP = 1; // Feet
+
+interface Variation {
+  value: string;
+  request: AssessmentRequest;
+}
+
+interface InputVariations {
+  input: string;
+  label: string;
+  baselineValue: string;
+  variations: Variation[];
+}
+
+const formatOption = (option: string) => option.toLowerCase().replace(/_/g, ' ');
+const formatFeet = (feet: number) => `${Number(feet.toFixed(2))}`;
+
+export class SensitivityService {
+  /**
+   * Perturb each input of the request and rank the inputs by how much they move the score
+   */
+  static analyze(request: SensitivityRequest): SensitivityResponse {
+    const { assessment } = request;
+    const baselineTimeline = ScoringService.generateTimeline(assessment);
+    const year = request.year ?? baselineTimeline[baselineTimeline.length - 1].year;
+
+    if (!baselineTimeline.some(entry => entry.year === year)) {
+      throw new z.ZodError([{
+        code: z.ZodIssueCode.custom,
+        path: ['year'],
+        message: `Year must be one of the timeline years: ${baselineTimeline.map(entry => entry.year).join(', ')}`,
+      }]);
+    }
+
+    // Only the analysis year is projected for each variant
+    const scoreAt = (variant: AssessmentRequest) =>
+      ScoringService.generateTimeline({ ...variant, horizon: { years: [year] } })[0].score;
+    const baselineScore = scoreAt(assessment);
+
+    const factors = this.buildVariations(assessment)
+      .filter(({ variations }) => variations.length > 0)
+      .map(({ input, label, baselineValue, variations }): SensitivityFactor => {
+        const deltas = variations.map(variation => ({
+          value: variation.value,
+          delta: Number((scoreAt(variation.request) - baselineScore).toFixed(2)),
+        }));
+        const low = deltas.reduce((min, delta) => (delta.delta < min.delta ? delta : min));
+        const high = deltas.reduce((max, delta) => (delta.delta > max.delta ? delta : max));
+
+        // One-sided inputs (e.g. toggles) keep the unchanged baseline on the other side
+        const unchanged = { value: baselineValue, delta: 0 };
+        const lowSide = low.delta < 0 ? low : unchanged;
+        const highSide = high.delta > 0 ? high : unchanged;
+
+        return {
+          input,
+          label,
+          baselineValue,
+          low: lowSide,
+          high: highSide,
+          swing: Number((highSide.delta - lowSide.delta).toFixed(2)),
+        };
+      })
+      .sort((a, b) => b.swing - a.swing);
+
+    return { year, baselineScore, factors };
+  }
+
+  /**
+   * Variations of each flood input: elevation +/- 1 ft, alternative foundations and materials,
+   * toggled mitigation features and utility protection, and the low/high sea level rise scenarios
+   */
+  private static buildVariations(request: AssessmentRequest): InputVariations[] {
+    const [scenario] = SeaLevelService.resolveScenarios(request);
+    const alternatives = <T extends string>(options: readonly T[], current: T) =>
+      options.filter(option => option !== current);
+    const elevationAboveBFE = FloodHazardService.getElevationAboveBFE(request);
+
+    return [
+      {
+        input: 'elevationAboveBFE',
+        label: 'Elevation above BFE',
+        baselineValue: `${formatFeet(elevationAboveBFE)} ft`,
+        variations: [-ELEVATION_STEP, ELEVATION_STEP]
+          .filter(step => elevationAboveBFE + step >= 0)
+          .map(step => ({
+            value: `${formatFeet(elevationAboveBFE + step)} ft`,
+            request: { ...request, elevationAboveBFE: elevationAboveBFE + step },
+          })),
+      },
+      {
+        input: 'foundationType',
+        label: 'Foundation type',
+        baselineValue: formatOption(request.foundationType),
+        variations: alternatives(FoundationType.options, request.foundationType).map(foundationType => ({
+          value: formatOption(foundationType),
+          request: { ...request, foundationType },
+        })),
+      },
+      {
+        input: 'materials',
+        label: 'Structural materials',
+        baselineValue: request.materials
+          .map(assembly => `${assembly.share}% ${formatOption(assembly.material)} ${formatOption(assembly.location).replace('dfe', 'DFE')}`)
+          .join(', '),
+        // Swap every assembly to one material, keeping shares and locations
+        variations: MaterialType.options
+          .filter(material => request.materials.some(assembly => assembly.material !== material))
+          .map(material => ({
+            value: formatOption(material),
+            request: { ...request, materials: request.materials.map(assembly => ({ ...assembly, material })) },
+          })),
+      },
+      ...MitigationFeature.options.map(feature => {
+        const present = request.mitigationFeatures.includes(feature);
+        return {
+          input: 'mitigationFeatures',
+          label: `Mitigation: ${formatOption(feature)}`,
+          baselineValue: present ? 'present' : 'absent',
+          variations: [{
+            value: present ? 'removed' : 'added',
+            request: {
+              ...request,
+              mitigationFeatures: present
+                ? request.mitigationFeatures.filter(existing => existing !== feature)
+                : [...request.mitigationFeatures, feature],
+            },
+          }],
+        };
+      }),
+      {
+        input: 'utilityProtection',
+        label: 'Utility protection',
+        baselineValue: request.utilityProtection ? 'yes' : 'no',
+        variations: [{
+          value: request.utilityProtection ? 'no' : 'yes',
+          request: { ...request, utilityProtection: !request.utilityProtection },
+        }],
+      },
+      {
+        input: 'scenario',
+        label: 'Sea level rise rate',
+        baselineValue: formatOption(scenario),
+        variations: (['LOW', 'HIGH'] as SeaLevelScenario[])
+          .filter(option => option !== scenario)
+          .map(option => ({
+            value: formatOption(option),
+            request: { ...request, scenario: option },
+          })),
+      },
+    ];
+  }
+}
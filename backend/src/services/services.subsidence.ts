@@ -0,0 +1,42 @@
+import { config } from '../config/config';
+import { loadDataFile } from '../data/data.loader';
+import { lookupGridCell } from '../lib/lib.grid';
+import { Location } from '../schemas/schemas.assessment';
+import { SubsidenceGrid, SubsidenceGridSchema } from '../schemas/schemas.climate';
+
+const MM_PER_FOOT = 304.8;
+
+export class SubsidenceService {
+  private static grid: SubsidenceGrid | null = null;
+
+  /**
+   * Load and validate the gridded subsidence rates
+   */
+  static loadGrid(): void {
+    this.grid = loadDataFile(config.baselineFloodParameters.subsidenceGrid, SubsidenceGridSchema);
+  }
+
+  /**
+   * Subsidence rate in mm/yr at a location (the grid's default rate outside its bounds)
+   */
+  static getRate(location: Location): number {
+    const grid = this.getGrid();
+    return lookupGridCell(grid.bounds, grid.cellSize, grid.rates, location.latitude, location.longitude)
+      ?? grid.defaultRate;
+  }
+
+  /**
+   * Cumulative land subsidence in feet between the baseline year and the given year
+   */
+  static getSubsidence(location: Location, year: number): number {
+    const yearsFromBaseline = Math.max(0, year - config.baselineFloodParameters.baselineYear);
+    return (this.getRate(location) * yearsFromBaseline) / MM_PER_FOOT;
+  }
+
+  private static getGrid(): SubsidenceGrid {
+    if (!this.grid) {
+      this.loadGrid();
+    }
+    return this.grid!;
+  }
+}
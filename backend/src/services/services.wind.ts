@@ -0,0 +1,123 @@
+import { config } from '../config/config';
+import { loadDataFile } from '../data/data.loader';
+import { lookupGridCell } from '../lib/lib.grid';
+import { AssessmentRequest, Location, WindAssessment, WindScoreBreakdown } from '../schemas/schemas.assessment';
+import { DesignWindSpeedGrid, DesignWindSpeedGridSchema } from '../schemas/schemas.climate';
+import { WindScoring } from '../schemas/schemas.profile';
+import { ProfileService } from './services.profiles';
+
+export class WindService {
+  private static grid: DesignWindSpeedGrid | null = null;
+
+  /**
+   * Load and validate the gridded design wind speeds
+   */
+  static loadGrid(): void {
+    this.grid = loadDataFile(config.wind.designWindSpeeds, DesignWindSpeedGridSchema);
+  }
+
+  /**
+   * Basic design wind speed in mph at a location (the grid's default speed outside its bounds)
+   */
+  static getDesignWindSpeed(location: Location): number {
+    const grid = this.getGrid();
+    return lookupGridCell(grid.bounds, grid.cellSize, grid.speeds, location.latitude, location.longitude)
+      ?? grid.defaultSpeed;
+  }
+
+  /**
+   * Score the building's wind resistance from its roof and openings, less a penalty
+   * for sites whose design wind speed exceeds the profile's reference speed
+   */
+  static assess(request: AssessmentRequest): WindAssessment {
+    const { wind } = ProfileService.getProfile(request.scoringProfile);
+    const designWindSpeed = this.getDesignWindSpeed(request.location);
+    const inputs = this.resolveInputs(request, wind);
+
+    const components = ([
+      { component: 'ROOF_MATERIAL', rawScore: wind.roofMaterialScores[request.roofMaterial], weight: wind.weights.roofMaterial },
+      { component: 'ROOF_SHAPE', rawScore: wind.roofShapeScores[inputs.roofShape], weight: wind.weights.roofShape },
+      {
+        component: 'ROOF_TO_WALL_CONNECTION',
+        rawScore: wind.roofToWallConnectionScores[inputs.roofToWallConnection],
+        weight: wind.weights.roofToWallConnection,
+      },
+      {
+        component: 'OPENING_PROTECTION',
+        rawScore: wind.openingProtectionScores[inputs.openingProtection],
+        weight: wind.weights.openingProtection,
+      },
+    ] as Array<Omit<WindScoreBreakdown['components'][number], 'contribution'>>).map(part => ({
+      ...part,
+      contribution: part.rawScore * part.weight,
+    }));
+
+    const adjustments: WindScoreBreakdown['adjustments'] = [];
+    const { referenceSpeed, pointsPerMph, maxPenalty } = wind.designWindSpeed;
+    if (designWindSpeed > referenceSpeed) {
+      adjustments.push({
+        rule: 'DESIGN_WIND_SPEED',
+        description: `Design wind speed of ${designWindSpeed} mph exceeds ${referenceSpeed} mph`,
+        points: -Math.min((designWindSpeed - referenceSpeed) * pointsPerMph, maxPenalty),
+      });
+    }
+
+    const total = components.reduce((sum, part) => sum + part.contribution, 0) +
+      adjustments.reduce((sum, adjustment) => sum + adjustment.points, 0);
+    const breakdown = { total: Math.min(Math.max(total, 0), 100), components, adjustments };
+
+    return {
+      designWindSpeed,
+      score: breakdown.total,
+      breakdown,
+      recommendations: this.generateRecommendations(request, inputs, designWindSpeed),
+    };
+  }
+
+  // Request inputs with the profile's defaults for those the request omits
+  private static resolveInputs(request: AssessmentRequest, wind: WindScoring) {
+    return {
+      roofShape: request.roofShape ?? wind.defaults.roofShape,
+      roofToWallConnection: request.roofToWallConnection ?? wind.defaults.roofToWallConnection,
+      openingProtection: request.openingProtection ?? wind.defaults.openingProtection,
+    };
+  }
+
+  /**
+   * Generate wind-specific recommendations
+   */
+  private static generateRecommendations(
+    request: AssessmentRequest,
+    inputs: ReturnType<typeof WindService.resolveInputs>,
+    designWindSpeed: number
+  ): string[] {
+    const recommendations: string[] = [];
+
+    if (inputs.roofToWallConnection === 'TOE_NAIL' || inputs.roofToWallConnection === 'CLIPS') {
+      recommendations.push('Strengthen roof-to-wall connections with hurricane straps to complete the load path');
+    }
+
+    if (inputs.openingProtection === 'NONE') {
+      recommendations.push(`Protect windows and doors with rated shutters or impact-resistant glazing for ${designWindSpeed} mph design winds`);
+    } else if (inputs.openingProtection === 'TEMPORARY_PANELS') {
+      recommendations.push('Consider permanent shutters or impact-rated glazing so openings are protected without installation before a storm');
+    }
+
+    if (inputs.roofShape === 'GABLE') {
+      recommendations.push('Brace gable end walls and overhangs, which see the highest wind uplift');
+    }
+
+    if (request.roofMaterial === 'ASPHALT_SHINGLE') {
+      recommendations.push('Consider upgrading to metal or tile roofing for better wind resistance and longevity');
+    }
+
+    return recommendations;
+  }
+
+  private static getGrid(): DesignWindSpeedGrid {
+    if (!this.grid) {
+      this.loadGrid();
+    }
+    return this.grid!;
+  }
+}
@@ -13,8 +13,16 @@ import { Textarea } from "@/components/ui/ui.textarea"
 import { Alert, AlertDescription } from "@/components/ui/ui.alert"
 import { useToast } from "@/hooks/hooks.use-toast"
 import { checkBackendHealth, fetchWithFallback } from "@/lib/lib.api"
+import { TornadoChart, type SensitivityFactor } from "@/components/components.tornado-chart"
+import {
+  MaterialAssembliesEditor,
+  materialSharesTotal,
+  type MaterialAssemblyRow,
+} from "@/components/components.material-assemblies-editor"
+import { ComplianceChecklist, type ComplianceRuleSetResult } from "@/components/components.compliance-checklist"
+import { DesignComparison, type ComparisonResult } from "@/components/components.design-comparison"
 import { Loader2, AlertTriangle, Home, TrendingUp } from "lucide-react"
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts"
+import { ComposedChart, Line, Area, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts"
 
 /*
 Folder Structure:
@@ -30,26 +38,287 @@ Folder Structure:
 
 interface FormData {
   foundationType: "SLAB_ON_GRADE" | "ELEVATED_FOUNDATION" | "PIER_AND_BEAM" | "PILE_FOUNDATION" | ""
+  latitude: string
+  longitude: string
   siteElevation: string
+  siteElevationDatum: VerticalDatum
+  firstFloorElevation: string
+  firstFloorElevationDatum: VerticalDatum
   baseFloodElevation: string
+  baseFloodElevationDatum: VerticalDatum
+  floodElevations: Record<"10" | "50" | "500", string>
+  materials: MaterialAssemblyRow[]
   roofMaterial: "metal" | "asphalt" | "tile" | ""
+  roofShape: "HIP" | "GABLE" | "FLAT" | ""
+  roofToWallConnection: "TOE_NAIL" | "CLIPS" | "SINGLE_WRAP" | "DOUBLE_WRAP" | ""
+  openingProtection: "NONE" | "TEMPORARY_PANELS" | "PERMANENT_SHUTTERS" | "IMPACT_RATED" | ""
   floodVents: boolean
-  breakawayWalls: boolean
+  breakawayWalls: "YES" | "NO" | "" // Left out of the request until answered
+  enclosureArea: string
+  floodVentOpeningArea: string
   utilitiesProtected: boolean
-  floodZone: "A" | "AE" | "V" | "X" | ""
+  floodZone: "A" | "AE" | "V" | "VE" | "X" | ""
   yearBuilt: string
+  occupancyType: "SINGLE_FAMILY" | "DUPLEX" | "MULTI_FAMILY" | "COMMERCIAL" | "SCHOOL" | ""
+  stories: string
+  hasBasement: boolean
+  lowerLevelUse: "PARKING" | "STORAGE" | "LIVING_SPACE" | ""
+  buildingValue: string
+  contentsValue: string
+  insulation: "POOR" | "CODE_MINIMUM" | "HIGH_PERFORMANCE" | ""
+  windowToWallRatio: string
+  shading: "NONE" | "PARTIAL" | "FULL" | ""
+  backupPower: "NONE" | "CRITICAL_LOADS" | "WHOLE_BUILDING" | ""
+  warmingScenario: WarmingScenario
+  imperviousness: string
+  lotGrading: "SLOPES_AWAY" | "FLAT" | "SLOPES_TOWARD" | ""
+  firstFloorHeightAboveGrade: string
+  scenario: SeaLevelScenario
+  horizonEndYear: string
+  horizonStep: string
+  compareScenarios: boolean
+  showUncertainty: boolean
   designDescription: string
 }
 
-interface EvaluationResult {
-  currentScore: number
+type SeaLevelScenario = "LOW" | "INTERMEDIATE_LOW" | "INTERMEDIATE" | "INTERMEDIATE_HIGH" | "HIGH"
+
+type WarmingScenario = "SSP1_2_6" | "SSP2_4_5" | "SSP3_7_0" | "SSP5_8_5"
+
+// Vertical datums of surveyed and mapped elevations; the backend converts both to NAVD88
+type VerticalDatum = "NAVD88" | "NGVD29"
+
+const VERTICAL_DATUMS: VerticalDatum[] = ["NAVD88", "NGVD29"]
+
+const WARMING_SCENARIOS: Record<WarmingScenario, string> = {
+  SSP1_2_6: "SSP1-2.6 (low emissions)",
+  SSP2_4_5: "SSP2-4.5 (intermediate)",
+  SSP3_7_0: "SSP3-7.0 (high emissions)",
+  SSP5_8_5: "SSP5-8.5 (very high emissions)",
+}
+
+// Display labels and chart colors for each sea level rise scenario
+const SEA_LEVEL_SCENARIOS: Record<SeaLevelScenario, { label: string; color: string }> = {
+  LOW: { label: "Low", color: "#16a34a" },
+  INTERMEDIATE_LOW: { label: "Intermediate-Low", color: "#65a30d" },
+  INTERMEDIATE: { label: "Intermediate", color: "#2563eb" },
+  INTERMEDIATE_HIGH: { label: "Intermediate-High", color: "#ea580c" },
+  HIGH: { label: "High", color: "#dc2626" },
+}
+
+type ScoreComponent =
+  | "ELEVATION"
+  | "FOUNDATION"
+  | "STRUCTURAL_MATERIALS"
+  | "ROOF_MATERIAL"
+  | "MITIGATION_FEATURES"
+  | "UTILITY_PROTECTION"
+
+interface ScoreBreakdown {
+  total: number
+  components: Array<{
+    component: ScoreComponent
+    rawScore: number
+    weight: number
+    contribution: number
+  }>
+  adjustments: Array<{
+    rule: string
+    description: string
+    points: number
+  }>
+}
+
+type MitigationFeature = "FLOOD_VENTS" | "WATERPROOFING" | "BACKFLOW_PREVENTION" | "ELEVATED_UTILITIES" | "FLOOD_BARRIERS"
+
+const MITIGATION_FEATURES: Record<MitigationFeature, string> = {
+  FLOOD_VENTS: "Flood vents",
+  WATERPROOFING: "Waterproofing",
+  BACKFLOW_PREVENTION: "Backflow prevention",
+  ELEVATED_UTILITIES: "Elevated utilities",
+  FLOOD_BARRIERS: "Flood barriers",
+}
+
+interface MitigationEvaluation {
+  score: number
+  applied: Array<{
+    feature: MitigationFeature
+    basePoints: number
+    points: number
+  }>
+  ignored: Array<{
+    feature: MitigationFeature
+    reason: string
+  }>
+  synergies: Array<{
+    features: MitigationFeature[]
+    points: number
+    description: string
+  }>
+  conflicts: Array<{
+    features: MitigationFeature[]
+    warning: string
+  }>
+}
+
+// Display labels and chart colors for each score component
+const SCORE_COMPONENTS: Record<ScoreComponent, { label: string; color: string }> = {
+  ELEVATION: { label: "Elevation", color: "#2563eb" },
+  FOUNDATION: { label: "Foundation", color: "#7c3aed" },
+  STRUCTURAL_MATERIALS: { label: "Structural Materials", color: "#0891b2" },
+  ROOF_MATERIAL: { label: "Roof", color: "#16a34a" },
+  MITIGATION_FEATURES: { label: "Mitigation", color: "#ca8a04" },
+  UTILITY_PROTECTION: { label: "Utilities", color: "#ea580c" },
+}
+
+type WindScoreComponent = "ROOF_MATERIAL" | "ROOF_SHAPE" | "ROOF_TO_WALL_CONNECTION" | "OPENING_PROTECTION"
+
+const WIND_SCORE_COMPONENTS: Record<WindScoreComponent, string> = {
+  ROOF_MATERIAL: "Roof Material",
+  ROOF_SHAPE: "Roof Shape",
+  ROOF_TO_WALL_CONNECTION: "Roof-to-Wall Connection",
+  OPENING_PROTECTION: "Opening Protection",
+}
+
+interface WindAssessment {
+  designWindSpeed: number
+  score: number
+  breakdown: {
+    total: number
+    components: Array<{
+      component: WindScoreComponent
+      rawScore: number
+      weight: number
+      contribution: number
+    }>
+    adjustments: ScoreBreakdown["adjustments"]
+  }
+  recommendations: string[]
+}
+
+interface HeatAssessment {
+  warmingScenario: WarmingScenario
+  score: number
   timeline: Array<{
     year: number
-    projectedBFE: number
+    warming: number
+    extremeHeatDays: number
     score: number
-    recommendations: string[]
+    overheatingRisk: "LOW" | "MODERATE" | "HIGH"
+  }>
+  recommendations: string[]
+}
+
+interface TimelineEntry {
+  year: number
+  seaLevelRise: number
+  subsidence: number
+  relativeRise: number
+  projectedBFE: number
+  firstFloorFloodProbability: {
+    annual: number
+    overMortgage: number
+  }
+  score: number
+  breakdown: ScoreBreakdown
+  pluvialPonding: Array<{
+    returnPeriod: number
+    depth: number
+    reachesFirstFloor: boolean
+  }>
+  loss?: {
+    expectedAnnualLoss: number
+    cumulativeLoss: number
+  }
+  recommendations: string[]
+}
+
+interface PercentileBand {
+  p10: number
+  p50: number
+  p90: number
+}
+
+interface EvaluationResult {
+  currentScore: number
+  scoreBreakdown: ScoreBreakdown
+  mitigation: MitigationEvaluation
+  floodHazard: {
+    floodZone?: string
+    floodZoneSource: "REQUEST" | "FLOOD_MAP" | "NONE"
+    baseFloodElevation: number
+    baseFloodElevationSource: "REQUEST" | "FLOOD_MAP"
+    firstFloorElevation: number
+    elevationAboveBFE: number
+    datum: string
+  }
+  hazardScores: {
+    flood: number
+    wind: number
+    combined: number
+  }
+  wind: WindAssessment
+  heat: HeatAssessment
+  scenario: SeaLevelScenario
+  subsidenceRate: number
+  timeline: TimelineEntry[]
+  scenarioTimelines: Array<{
+    scenario: SeaLevelScenario
+    timeline: TimelineEntry[]
   }>
+  uncertainty?: {
+    samples: number
+    seed: number
+    timeline: Array<{
+      year: number
+      score: PercentileBand
+      projectedBFE: PercentileBand
+    }>
+  }
   overallRecommendations: string[]
+  warnings: string[]
+  scoringProfile: {
+    id: string
+    version: string
+  }
+}
+
+interface SensitivityResult {
+  year: number
+  baselineScore: number
+  factors: SensitivityFactor[]
+}
+
+interface ComplianceResult {
+  compliant: boolean
+  summary: Record<"PASS" | "FAIL" | "NOT_APPLICABLE" | "MISSING_INPUT", number>
+  ruleSets: ComplianceRuleSetResult[]
+}
+
+interface PremiumBand {
+  low: number
+  estimate: number
+  high: number
+}
+
+interface InsuranceEstimate {
+  floodZone: string
+  scenario: SeaLevelScenario
+  coverage: {
+    building: number
+    contents: number
+  }
+  current: PremiumBand
+  timeline: Array<{
+    year: number
+    elevationDifference: number
+    premium: PremiumBand
+  }>
+  retrofitSavings: Array<{
+    description: string
+    premium: PremiumBand
+    annualSavings: number
+  }>
 }
 
 export default function ClimateAdaptiveArchitectureTool() {
@@ -57,19 +326,61 @@ export default function ClimateAdaptiveArchitectureTool() {
   const [isLoading, setIsLoading] = useState(false)
   const [loadingStep, setLoadingStep] = useState<string>("")
   const [result, setResult] = useState<EvaluationResult | null>(null)
+  const [sensitivity, setSensitivity] = useState<SensitivityResult | null>(null)
+  const [insurance, setInsurance] = useState<InsuranceEstimate | null>(null)
+  const [compliance, setCompliance] = useState<ComplianceResult | null>(null)
+  const [lastRequest, setLastRequest] = useState<Record<string, unknown> | null>(null)
+  const [designOptions, setDesignOptions] = useState<Array<{ label: string; assessment: Record<string, unknown> }>>([])
+  const [comparison, setComparison] = useState<ComparisonResult | null>(null)
+  const [isComparing, setIsComparing] = useState(false)
+  const [isLookingUpFloodZone, setIsLookingUpFloodZone] = useState(false)
+  const [isLookingUpElevation, setIsLookingUpElevation] = useState(false)
+  const [demElevation, setDemElevation] = useState<{ elevation: number; datum: string } | null>(null)
   const [backendConnected, setBackendConnected] = useState<boolean | null>(null)
   const [usingFallback, setUsingFallback] = useState<boolean>(false)
   const [currentBackendUrl, setCurrentBackendUrl] = useState<string>('')
   const [formData, setFormData] = useState<FormData>({
     foundationType: "",
-    siteElevation: "0",
+    latitude: "29.9511", // New Orleans default coordinates
+    longitude: "-90.0715",
+    siteElevation: "",
+    siteElevationDatum: "NAVD88",
+    firstFloorElevation: "",
+    firstFloorElevationDatum: "NAVD88",
     baseFloodElevation: "0",
+    baseFloodElevationDatum: "NAVD88",
+    floodElevations: { "10": "", "50": "", "500": "" },
+    materials: [{ material: "MIXED", location: "THROUGHOUT", share: "100" }],
     roofMaterial: "",
+    roofShape: "",
+    roofToWallConnection: "",
+    openingProtection: "",
     floodVents: false,
-    breakawayWalls: false,
+    breakawayWalls: "",
+    enclosureArea: "",
+    floodVentOpeningArea: "",
     utilitiesProtected: false,
     floodZone: "",
     yearBuilt: new Date().getFullYear().toString(),
+    occupancyType: "",
+    stories: "",
+    hasBasement: false,
+    lowerLevelUse: "",
+    buildingValue: "",
+    contentsValue: "",
+    insulation: "",
+    windowToWallRatio: "",
+    shading: "",
+    backupPower: "",
+    warmingScenario: "SSP2_4_5",
+    imperviousness: "",
+    lotGrading: "",
+    firstFloorHeightAboveGrade: "",
+    scenario: "INTERMEDIATE",
+    horizonEndYear: "",
+    horizonStep: "5",
+    compareScenarios: false,
+    showUncertainty: false,
     designDescription: "",
   })
 
@@ -97,25 +408,39 @@ export default function ClimateAdaptiveArchitectureTool() {
   const validateForm = (): boolean => {
     const errors: string[] = []
 
-    const siteElevationNum = Number.parseFloat(formData.siteElevation) || 0
+    const firstFloorElevationNum = Number.parseFloat(formData.firstFloorElevation)
     const baseFloodElevationNum = Number.parseFloat(formData.baseFloodElevation) || 0
 
-    if (siteElevationNum < 0) {
-      errors.push("Site elevation must be 0 or greater")
+    if (
+      formData.firstFloorElevationDatum === formData.baseFloodElevationDatum &&
+      firstFloorElevationNum < baseFloodElevationNum
+    ) {
+      errors.push("Warning: First floor elevation is below Base Flood Elevation - high flood risk!")
     }
 
-    if (baseFloodElevationNum < 0) {
-      errors.push("Base flood elevation must be 0 or greater")
+    // Without a first floor elevation the backend adds the floor's height above grade to the ground elevation
+    if (!formData.firstFloorElevation && !formData.siteElevation) {
+      errors.push("First floor elevation or ground elevation is required")
     }
 
-    if (siteElevationNum < baseFloodElevationNum) {
-      errors.push("Warning: Site elevation is below Base Flood Elevation - high flood risk!")
+    const latitudeNum = Number.parseFloat(formData.latitude)
+    const longitudeNum = Number.parseFloat(formData.longitude)
+    if (!(latitudeNum >= -90 && latitudeNum <= 90) || !(longitudeNum >= -180 && longitudeNum <= 180)) {
+      errors.push("Latitude and longitude are required")
     }
 
     if (!formData.foundationType) {
       errors.push("Foundation type is required")
     }
 
+    if (Math.abs(materialSharesTotal(formData.materials) - 100) >= 0.01) {
+      errors.push("Material shares must add up to 100%")
+    }
+
+    if (formData.materials.some((row) => !(Number.parseFloat(row.share) > 0))) {
+      errors.push("Each material needs a share above 0%")
+    }
+
     if (!formData.roofMaterial) {
       errors.push("Roof material is required")
     }
@@ -124,6 +449,15 @@ export default function ClimateAdaptiveArchitectureTool() {
       errors.push("Flood zone is required")
     }
 
+    if (formData.contentsValue && !formData.buildingValue) {
+      errors.push("Building replacement value is required to estimate flood losses")
+    }
+
+    const horizonEndYearNum = Number.parseInt(formData.horizonEndYear)
+    if (formData.horizonEndYear && !(horizonEndYearNum >= 2025 && horizonEndYearNum <= 2100)) {
+      errors.push("Projection end year must be between 2025 and 2100")
+    }
+
     if (formData.designDescription.length > 1000) {
       errors.push("Design description must be 1000 characters or less")
     }
@@ -151,8 +485,9 @@ export default function ClimateAdaptiveArchitectureTool() {
       setLoadingStep("Analyzing building characteristics...")
 
       // Transform frontend form data to backend API format
-      const siteElevationNum = Number.parseFloat(formData.siteElevation) || 0
       const baseFloodElevationNum = Number.parseFloat(formData.baseFloodElevation) || 0
+      const buildingValueNum = Number.parseFloat(formData.buildingValue) || 0
+      const contentsValueNum = Number.parseFloat(formData.contentsValue) || 0
       
       // Map frontend roof material values to backend enum values
       const roofMaterialMapping = {
@@ -163,20 +498,90 @@ export default function ClimateAdaptiveArchitectureTool() {
       
       const backendRequest = {
         foundationType: formData.foundationType,
-        elevationAboveBFE: Math.max(0, siteElevationNum - baseFloodElevationNum),
-        currentBFE: baseFloodElevationNum, // Add missing currentBFE field
-        materials: ["MIXED"], // Default for now, can be enhanced later
+        // The backend compares the first floor and BFE after converting both to one datum. Without a first
+        // floor elevation it uses the ground elevation plus the floor above grade (or the foundation's default)
+        ...(formData.firstFloorElevation ? { firstFloorElevation: Number.parseFloat(formData.firstFloorElevation) } : {}),
+        // Ground elevation, cross-checked against the DEM ground elevation when entered
+        ...(formData.siteElevation ? { siteElevation: Number.parseFloat(formData.siteElevation) } : {}),
+        currentBFE: baseFloodElevationNum,
+        elevationDatums: {
+          firstFloorElevation: formData.firstFloorElevationDatum,
+          siteElevation: formData.siteElevationDatum,
+          currentBFE: formData.baseFloodElevationDatum,
+          floodElevations: formData.baseFloodElevationDatum,
+        },
+        // Other return periods the user knows; the backend derives the rest from the BFE
+        ...(Object.values(formData.floodElevations).some(Boolean)
+          ? {
+              floodElevations: [
+                ...Object.entries(formData.floodElevations)
+                  .filter(([, elevation]) => elevation !== "")
+                  .map(([returnPeriod, elevation]) => ({
+                    returnPeriod: Number(returnPeriod),
+                    elevation: Number.parseFloat(elevation),
+                  })),
+                { returnPeriod: 100, elevation: baseFloodElevationNum },
+              ],
+            }
+          : {}),
+        materials: formData.materials.map((row) => ({
+          material: row.material,
+          location: row.location,
+          share: Number.parseFloat(row.share) || 0,
+        })),
         roofMaterial: roofMaterialMapping[formData.roofMaterial as keyof typeof roofMaterialMapping],
+        ...(formData.roofShape ? { roofShape: formData.roofShape } : {}),
+        ...(formData.roofToWallConnection ? { roofToWallConnection: formData.roofToWallConnection } : {}),
+        ...(formData.openingProtection ? { openingProtection: formData.openingProtection } : {}),
         mitigationFeatures: [
           ...(formData.floodVents ? ["FLOOD_VENTS"] : []),
           ...(formData.utilitiesProtected ? ["ELEVATED_UTILITIES"] : []),
         ],
         utilityProtection: formData.utilitiesProtected,
+        floodZone: formData.floodZone,
+        ...(formData.breakawayWalls ? { breakawayWalls: formData.breakawayWalls === "YES" } : {}),
+        ...(formData.enclosureArea ? { enclosureArea: Number.parseFloat(formData.enclosureArea) } : {}),
+        ...(formData.floodVentOpeningArea
+          ? { floodVentOpeningArea: Number.parseFloat(formData.floodVentOpeningArea) }
+          : {}),
+        ...(Number.parseInt(formData.yearBuilt) ? { yearBuilt: Number.parseInt(formData.yearBuilt) } : {}),
+        ...(formData.occupancyType ? { occupancyType: formData.occupancyType } : {}),
+        ...(Number.parseInt(formData.stories) ? { stories: Number.parseInt(formData.stories) } : {}),
+        hasBasement: formData.hasBasement,
+        ...(formData.lowerLevelUse ? { lowerLevelUse: formData.lowerLevelUse } : {}),
+        ...(buildingValueNum > 0
+          ? { valuation: { buildingReplacementValue: buildingValueNum, contentsValue: contentsValueNum } }
+          : {}),
         location: {
-          latitude: 29.9511, // New Orleans default coordinates
-          longitude: -90.0715,
+          latitude: Number.parseFloat(formData.latitude),
+          longitude: Number.parseFloat(formData.longitude),
         },
+        ...(formData.insulation ? { insulation: formData.insulation } : {}),
+        ...(formData.windowToWallRatio
+          ? { windowToWallRatio: Number.parseFloat(formData.windowToWallRatio) / 100 }
+          : {}),
+        ...(formData.shading ? { shading: formData.shading } : {}),
+        ...(formData.backupPower ? { backupPower: formData.backupPower } : {}),
+        ...(formData.imperviousness ? { imperviousness: Number.parseFloat(formData.imperviousness) / 100 } : {}),
+        ...(formData.lotGrading ? { lotGrading: formData.lotGrading } : {}),
+        ...(formData.firstFloorHeightAboveGrade
+          ? { firstFloorHeightAboveGrade: Number.parseFloat(formData.firstFloorHeightAboveGrade) }
+          : {}),
         designDescription: formData.designDescription,
+        scenario: formData.scenario,
+        ...(formData.horizonEndYear || formData.horizonStep !== "5"
+          ? {
+              horizon: {
+                ...(formData.horizonEndYear ? { endYear: Number.parseInt(formData.horizonEndYear) } : {}),
+                step: Number.parseInt(formData.horizonStep),
+              },
+            }
+          : {}),
+        ...(formData.compareScenarios
+          ? { scenarios: Object.keys(SEA_LEVEL_SCENARIOS) as SeaLevelScenario[] }
+          : {}),
+        ...(formData.showUncertainty ? { uncertainty: {} } : {}),
+        warmingScenario: formData.warmingScenario,
       }
 
       // Debug logging to confirm request structure
@@ -214,6 +619,47 @@ export default function ClimateAdaptiveArchitectureTool() {
 
       const data: EvaluationResult = await response.json()
       setResult(data)
+      setLastRequest(backendRequest)
+
+      // Sensitivity analysis is supplementary, so a failure here does not fail the assessment
+      setSensitivity(null)
+      fetchWithFallback("/api/sensitivity", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ assessment: backendRequest }),
+      })
+        .then((sensitivityResponse) => (sensitivityResponse.ok ? sensitivityResponse.json() : null))
+        .then((sensitivityData: SensitivityResult | null) => setSensitivity(sensitivityData))
+        .catch((error) => console.error("Sensitivity analysis error:", error))
+
+      setCompliance(null)
+      fetchWithFallback("/api/compliance", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ assessment: backendRequest }),
+      })
+        .then((complianceResponse) => (complianceResponse.ok ? complianceResponse.json() : null))
+        .then((complianceData: ComplianceResult | null) => setCompliance(complianceData))
+        .catch((error) => console.error("Compliance check error:", error))
+
+      // Premiums are rated on the building and contents values, so they need a valuation
+      setInsurance(null)
+      if (backendRequest.valuation) {
+        fetchWithFallback("/api/insurance", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ assessment: backendRequest }),
+        })
+          .then((insuranceResponse) => (insuranceResponse.ok ? insuranceResponse.json() : null))
+          .then((insuranceData: InsuranceEstimate | null) => setInsurance(insuranceData))
+          .catch((error) => console.error("Insurance estimate error:", error))
+      }
 
       toast({
         title: "Assessment Complete! 🎉",
@@ -232,6 +678,115 @@ export default function ClimateAdaptiveArchitectureTool() {
     }
   }
 
+  // Design options are the assessed requests saved for side-by-side comparison (up to 5)
+  const saveDesignOption = () => {
+    if (!lastRequest || designOptions.length >= 5) {
+      return
+    }
+    setDesignOptions((prev) => [...prev, { label: `Option ${prev.length + 1}`, assessment: lastRequest }])
+    setComparison(null)
+  }
+
+  const compareDesignOptions = async () => {
+    setIsComparing(true)
+    try {
+      const response = await fetchWithFallback("/api/compare", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ variants: designOptions }),
+      })
+      if (!response.ok) {
+        throw new Error("Failed to compare design options")
+      }
+      setComparison(await response.json())
+    } catch (error) {
+      console.error("Comparison error:", error)
+      toast({
+        title: "Comparison Failed",
+        description: error instanceof Error ? error.message : "Unable to compare design options",
+        variant: "destructive",
+      })
+    } finally {
+      setIsComparing(false)
+    }
+  }
+
+  // Fill the flood zone and BFE from the flood hazard maps at the entered coordinates
+  const lookupFloodZone = async () => {
+    setIsLookingUpFloodZone(true)
+    try {
+      const query = new URLSearchParams({ latitude: formData.latitude, longitude: formData.longitude })
+      const response = await fetchWithFallback(`/api/flood-zones/lookup?${query}`)
+      if (!response.ok) {
+        throw new Error("Enter a valid latitude and longitude")
+      }
+      const lookup: {
+        found: boolean
+        floodZone?: FormData["floodZone"]
+        mappedZone?: string
+        staticBFE?: number
+        datum?: string
+      } = await response.json()
+      if (!lookup.found) {
+        throw new Error("No mapped flood hazard area at this location")
+      }
+      setFormData((prev) => ({
+        ...prev,
+        ...(lookup.floodZone ? { floodZone: lookup.floodZone } : {}),
+        ...(lookup.staticBFE !== undefined ? { baseFloodElevation: lookup.staticBFE.toString() } : {}),
+        ...(VERTICAL_DATUMS.includes(lookup.datum as VerticalDatum)
+          ? { baseFloodElevationDatum: lookup.datum as VerticalDatum }
+          : {}),
+      }))
+      setValidationErrors([])
+      toast({
+        title: "Flood Zone Found",
+        description: `Mapped zone ${lookup.mappedZone}${lookup.staticBFE !== undefined ? ` with a BFE of ${lookup.staticBFE} ft ${lookup.datum}` : " without a static BFE"}`,
+      })
+    } catch (error) {
+      console.error("Flood zone lookup error:", error)
+      toast({
+        title: "Flood Zone Lookup Failed",
+        description: error instanceof Error ? error.message : "Unable to look up the flood zone",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLookingUpFloodZone(false)
+    }
+  }
+
+  // Fill the ground elevation (not the first floor) with the ground elevation sampled from the digital elevation models
+  const lookupElevation = async () => {
+    setIsLookingUpElevation(true)
+    try {
+      const query = new URLSearchParams({ latitude: formData.latitude, longitude: formData.longitude })
+      const response = await fetchWithFallback(`/api/elevation?${query}`)
+      if (!response.ok) {
+        throw new Error("Enter a valid latitude and longitude")
+      }
+      const lookup: { found: boolean; elevation?: number; datum?: string } = await response.json()
+      if (!lookup.found || lookup.elevation === undefined || !lookup.datum) {
+        throw new Error("No elevation data at this location")
+      }
+      setDemElevation({ elevation: lookup.elevation, datum: lookup.datum })
+      updateFormData("siteElevation", lookup.elevation.toString())
+      if (VERTICAL_DATUMS.includes(lookup.datum as VerticalDatum)) {
+        updateFormData("siteElevationDatum", lookup.datum)
+      }
+    } catch (error) {
+      console.error("Elevation lookup error:", error)
+      toast({
+        title: "Elevation Lookup Failed",
+        description: error instanceof Error ? error.message : "Unable to look up the ground elevation",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLookingUpElevation(false)
+    }
+  }
+
   const updateFormData = (field: keyof FormData, value: any) => {
     setFormData((prev) => ({ ...prev, [field]: value }))
     setValidationErrors([])
@@ -297,18 +852,110 @@ export default function ClimateAdaptiveArchitectureTool() {
                     </Select>
                   </div>
 
+                  {/* Location */}
+                  <div className="grid grid-cols-3 gap-4 items-end">
+                    <div className="space-y-2">
+                      <Label htmlFor="latitude">Latitude</Label>
+                      <Input
+                        id="latitude"
+                        type="number"
+                        value={formData.latitude}
+                        onChange={(e) => updateFormData("latitude", e.target.value)}
+                        min="-90"
+                        max="90"
+                        step="0.0001"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="longitude">Longitude</Label>
+                      <Input
+                        id="longitude"
+                        type="number"
+                        value={formData.longitude}
+                        onChange={(e) => updateFormData("longitude", e.target.value)}
+                        min="-180"
+                        max="180"
+                        step="0.0001"
+                      />
+                    </div>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={lookupFloodZone}
+                      disabled={isLookingUpFloodZone || backendConnected === false}
+                    >
+                      {isLookingUpFloodZone && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      Look up flood zone
+                    </Button>
+                  </div>
+
                   {/* Elevations */}
-                  <div className="grid grid-cols-2 gap-4">
+                  <div className="grid grid-cols-3 gap-4">
                     <div className="space-y-2">
-                      <Label htmlFor="siteElevation">Site Elevation (ft)</Label>
+                      <Label htmlFor="siteElevation">Ground Elevation (ft)</Label>
                       <Input
                         id="siteElevation"
                         type="number"
                         value={formData.siteElevation}
                         onChange={(e) => updateFormData("siteElevation", e.target.value)}
-                        min="0"
+                        placeholder="Optional"
+                        step="0.1"
+                      />
+                      <Select value={formData.siteElevationDatum} onValueChange={(value) => updateFormData("siteElevationDatum", value)}>
+                        <SelectTrigger id="siteElevationDatum" className="h-8 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {VERTICAL_DATUMS.map((datum) => (
+                            <SelectItem key={datum} value={datum}>
+                              {datum}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <div className="flex items-center gap-2 text-xs text-gray-500">
+                        <Button
+                          type="button"
+                          variant="link"
+                          className="h-auto p-0 text-xs"
+                          onClick={lookupElevation}
+                          disabled={isLookingUpElevation || backendConnected === false}
+                        >
+                          {isLookingUpElevation && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+                          Use DEM ground elevation
+                        </Button>
+                        {demElevation && (
+                          <span>
+                            DEM: {demElevation.elevation} ft {demElevation.datum}
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="firstFloorElevation">First Floor Elevation (ft)</Label>
+                      <Input
+                        id="firstFloorElevation"
+                        type="number"
+                        value={formData.firstFloorElevation}
+                        onChange={(e) => updateFormData("firstFloorElevation", e.target.value)}
+                        placeholder="Ground + floor above grade"
                         step="0.1"
                       />
+                      <Select
+                        value={formData.firstFloorElevationDatum}
+                        onValueChange={(value) => updateFormData("firstFloorElevationDatum", value)}
+                      >
+                        <SelectTrigger id="firstFloorElevationDatum" className="h-8 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {VERTICAL_DATUMS.map((datum) => (
+                            <SelectItem key={datum} value={datum}>
+                              {datum}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
                     </div>
                     <div className="space-y-2">
                       <Label htmlFor="bfe">Base Flood Elevation (ft)</Label>
@@ -317,12 +964,51 @@ export default function ClimateAdaptiveArchitectureTool() {
                         type="number"
                         value={formData.baseFloodElevation}
                         onChange={(e) => updateFormData("baseFloodElevation", e.target.value)}
-                        min="0"
                         step="0.1"
                       />
+                      <Select value={formData.baseFloodElevationDatum} onValueChange={(value) => updateFormData("baseFloodElevationDatum", value)}>
+                        <SelectTrigger id="bfeDatum" className="h-8 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {VERTICAL_DATUMS.map((datum) => (
+                            <SelectItem key={datum} value={datum}>
+                              {datum}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
                     </div>
                   </div>
 
+                  {/* Other Return Period Flood Elevations */}
+                  <div className="grid grid-cols-3 gap-4">
+                    {(["10", "50", "500"] as const).map((returnPeriod) => (
+                      <div key={returnPeriod} className="space-y-2">
+                        <Label htmlFor={`flood${returnPeriod}`}>{returnPeriod}-Year Flood (ft)</Label>
+                        <Input
+                          id={`flood${returnPeriod}`}
+                          type="number"
+                          value={formData.floodElevations[returnPeriod]}
+                          onChange={(e) =>
+                            updateFormData("floodElevations", { ...formData.floodElevations, [returnPeriod]: e.target.value })
+                          }
+                          placeholder="Optional"
+                          step="0.1"
+                        />
+                      </div>
+                    ))}
+                  </div>
+
+                  {/* Structural Materials */}
+                  <div className="space-y-2">
+                    <Label>Structural Materials</Label>
+                    <MaterialAssembliesEditor
+                      rows={formData.materials}
+                      onChange={(rows) => updateFormData("materials", rows)}
+                    />
+                  </div>
+
                   {/* Roof Material */}
                   <div className="space-y-2">
                     <Label htmlFor="roof">Roof Material</Label>
@@ -341,6 +1027,60 @@ export default function ClimateAdaptiveArchitectureTool() {
                     </Select>
                   </div>
 
+                  {/* Wind Resistance */}
+                  <div className="grid grid-cols-3 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="roofShape">Roof Shape</Label>
+                      <Select
+                        value={formData.roofShape}
+                        onValueChange={(value) => updateFormData("roofShape", value)}
+                      >
+                        <SelectTrigger id="roofShape">
+                          <SelectValue placeholder="Unknown" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="HIP">Hip</SelectItem>
+                          <SelectItem value="GABLE">Gable</SelectItem>
+                          <SelectItem value="FLAT">Flat</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="roofToWallConnection">Roof-to-Wall Connection</Label>
+                      <Select
+                        value={formData.roofToWallConnection}
+                        onValueChange={(value) => updateFormData("roofToWallConnection", value)}
+                      >
+                        <SelectTrigger id="roofToWallConnection">
+                          <SelectValue placeholder="Unknown" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="TOE_NAIL">Toe-nailed</SelectItem>
+                          <SelectItem value="CLIPS">Clips</SelectItem>
+                          <SelectItem value="SINGLE_WRAP">Single wrap straps</SelectItem>
+                          <SelectItem value="DOUBLE_WRAP">Double wrap straps</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="openingProtection">Opening Protection</Label>
+                      <Select
+                        value={formData.openingProtection}
+                        onValueChange={(value) => updateFormData("openingProtection", value)}
+                      >
+                        <SelectTrigger id="openingProtection">
+                          <SelectValue placeholder="Unknown" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="NONE">None</SelectItem>
+                          <SelectItem value="TEMPORARY_PANELS">Temporary panels</SelectItem>
+                          <SelectItem value="PERMANENT_SHUTTERS">Permanent shutters</SelectItem>
+                          <SelectItem value="IMPACT_RATED">Impact-rated glazing</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+
                   {/* Checkboxes */}
                   <div className="space-y-4">
                     <div className="flex items-center space-x-2">
@@ -352,12 +1092,19 @@ export default function ClimateAdaptiveArchitectureTool() {
                       <Label htmlFor="floodVents">Flood Vents</Label>
                     </div>
                     <div className="flex items-center space-x-2">
-                      <Checkbox
-                        id="breakawayWalls"
-                        checked={formData.breakawayWalls}
-                        onCheckedChange={(checked) => updateFormData("breakawayWalls", checked)}
-                      />
                       <Label htmlFor="breakawayWalls">Breakaway Walls</Label>
+                      <Select
+                        value={formData.breakawayWalls}
+                        onValueChange={(value) => updateFormData("breakawayWalls", value)}
+                      >
+                        <SelectTrigger id="breakawayWalls" className="h-8 w-32">
+                          <SelectValue placeholder="Unknown" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="YES">Yes</SelectItem>
+                          <SelectItem value="NO">No</SelectItem>
+                        </SelectContent>
+                      </Select>
                     </div>
                     <div className="flex items-center space-x-2">
                       <Checkbox
@@ -381,6 +1128,7 @@ export default function ClimateAdaptiveArchitectureTool() {
                           <SelectItem value="A">A</SelectItem>
                           <SelectItem value="AE">AE</SelectItem>
                           <SelectItem value="V">V</SelectItem>
+                          <SelectItem value="VE">VE</SelectItem>
                           <SelectItem value="X">X</SelectItem>
                         </SelectContent>
                       </Select>
@@ -398,6 +1146,288 @@ export default function ClimateAdaptiveArchitectureTool() {
                     </div>
                   </div>
 
+                  {/* Building Use */}
+                  <div className="grid grid-cols-3 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="occupancyType">Occupancy</Label>
+                      <Select value={formData.occupancyType} onValueChange={(value) => updateFormData("occupancyType", value)}>
+                        <SelectTrigger id="occupancyType">
+                          <SelectValue placeholder="Single family" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="SINGLE_FAMILY">Single family</SelectItem>
+                          <SelectItem value="DUPLEX">Duplex</SelectItem>
+                          <SelectItem value="MULTI_FAMILY">Multi-family</SelectItem>
+                          <SelectItem value="COMMERCIAL">Commercial</SelectItem>
+                          <SelectItem value="SCHOOL">School</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="stories">Stories</Label>
+                      <Input
+                        id="stories"
+                        type="number"
+                        value={formData.stories}
+                        onChange={(e) => updateFormData("stories", e.target.value)}
+                        placeholder="Optional"
+                        min="1"
+                        step="1"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="lowerLevelUse">Lower Level Use</Label>
+                      <Select value={formData.lowerLevelUse} onValueChange={(value) => updateFormData("lowerLevelUse", value)}>
+                        <SelectTrigger id="lowerLevelUse">
+                          <SelectValue placeholder="None / unknown" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="PARKING">Parking</SelectItem>
+                          <SelectItem value="STORAGE">Storage</SelectItem>
+                          <SelectItem value="LIVING_SPACE">Living space</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="hasBasement"
+                      checked={formData.hasBasement}
+                      onCheckedChange={(checked) => updateFormData("hasBasement", checked)}
+                    />
+                    <Label htmlFor="hasBasement">Basement</Label>
+                  </div>
+
+                  {/* Site Drainage */}
+                  <div className="grid grid-cols-3 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="imperviousness">Paved/Roofed Lot (%)</Label>
+                      <Input
+                        id="imperviousness"
+                        type="number"
+                        value={formData.imperviousness}
+                        onChange={(e) => updateFormData("imperviousness", e.target.value)}
+                        placeholder="Optional"
+                        min="0"
+                        max="100"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="lotGrading">Lot Grading</Label>
+                      <Select value={formData.lotGrading} onValueChange={(value) => updateFormData("lotGrading", value)}>
+                        <SelectTrigger id="lotGrading">
+                          <SelectValue placeholder="Unknown" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="SLOPES_AWAY">Slopes away</SelectItem>
+                          <SelectItem value="FLAT">Flat</SelectItem>
+                          <SelectItem value="SLOPES_TOWARD">Slopes toward building</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="firstFloorHeightAboveGrade">Floor Above Grade (ft)</Label>
+                      <Input
+                        id="firstFloorHeightAboveGrade"
+                        type="number"
+                        value={formData.firstFloorHeightAboveGrade}
+                        onChange={(e) => updateFormData("firstFloorHeightAboveGrade", e.target.value)}
+                        placeholder="Optional"
+                        min="0"
+                        step="0.5"
+                      />
+                    </div>
+                  </div>
+
+                  {/* Lower-Level Enclosure (flood opening compliance) */}
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="enclosureArea">Enclosure Below Floor (sq ft)</Label>
+                      <Input
+                        id="enclosureArea"
+                        type="number"
+                        value={formData.enclosureArea}
+                        onChange={(e) => updateFormData("enclosureArea", e.target.value)}
+                        placeholder="Optional, 0 if open"
+                        min="0"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="floodVentOpeningArea">Flood Vent Opening Area (sq in)</Label>
+                      <Input
+                        id="floodVentOpeningArea"
+                        type="number"
+                        value={formData.floodVentOpeningArea}
+                        onChange={(e) => updateFormData("floodVentOpeningArea", e.target.value)}
+                        placeholder="Optional"
+                        min="0"
+                      />
+                    </div>
+                  </div>
+
+                  {/* Building and Contents Values */}
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="buildingValue">Building Replacement Value ($)</Label>
+                      <Input
+                        id="buildingValue"
+                        type="number"
+                        value={formData.buildingValue}
+                        onChange={(e) => updateFormData("buildingValue", e.target.value)}
+                        placeholder="Optional"
+                        min="0"
+                        step="1000"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="contentsValue">Contents Value ($)</Label>
+                      <Input
+                        id="contentsValue"
+                        type="number"
+                        value={formData.contentsValue}
+                        onChange={(e) => updateFormData("contentsValue", e.target.value)}
+                        placeholder="Optional"
+                        min="0"
+                        step="1000"
+                      />
+                    </div>
+                  </div>
+
+                  {/* Sea Level Rise Scenario */}
+                  <div className="space-y-2">
+                    <Label htmlFor="scenario">Sea Level Rise Scenario</Label>
+                    <Select value={formData.scenario} onValueChange={(value) => updateFormData("scenario", value)}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select scenario" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(SEA_LEVEL_SCENARIOS) as SeaLevelScenario[]).map((scenario) => (
+                          <SelectItem key={scenario} value={scenario}>
+                            {SEA_LEVEL_SCENARIOS[scenario].label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <div className="flex items-center space-x-2">
+                      <Checkbox
+                        id="compareScenarios"
+                        checked={formData.compareScenarios}
+                        onCheckedChange={(checked) => updateFormData("compareScenarios", checked)}
+                      />
+                      <Label htmlFor="compareScenarios">Compare all scenarios</Label>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Checkbox
+                        id="showUncertainty"
+                        checked={formData.showUncertainty}
+                        onCheckedChange={(checked) => updateFormData("showUncertainty", checked)}
+                      />
+                      <Label htmlFor="showUncertainty">Show uncertainty bands (P10-P90)</Label>
+                    </div>
+                  </div>
+
+                  {/* Projection Horizon */}
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="horizonEndYear">Projection End Year</Label>
+                      <Input
+                        id="horizonEndYear"
+                        type="number"
+                        value={formData.horizonEndYear}
+                        onChange={(e) => updateFormData("horizonEndYear", e.target.value)}
+                        placeholder="2055"
+                        min="2025"
+                        max="2100"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="horizonStep">Timeline Step</Label>
+                      <Select value={formData.horizonStep} onValueChange={(value) => updateFormData("horizonStep", value)}>
+                        <SelectTrigger id="horizonStep">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="1">Annual</SelectItem>
+                          <SelectItem value="5">Every 5 years</SelectItem>
+                          <SelectItem value="10">Every 10 years</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+
+                  {/* Heat Resilience */}
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="insulation">Insulation</Label>
+                      <Select value={formData.insulation} onValueChange={(value) => updateFormData("insulation", value)}>
+                        <SelectTrigger id="insulation">
+                          <SelectValue placeholder="Unknown" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="POOR">Poor</SelectItem>
+                          <SelectItem value="CODE_MINIMUM">Code minimum</SelectItem>
+                          <SelectItem value="HIGH_PERFORMANCE">High performance</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="windowToWallRatio">Window-to-Wall Ratio (%)</Label>
+                      <Input
+                        id="windowToWallRatio"
+                        type="number"
+                        value={formData.windowToWallRatio}
+                        onChange={(e) => updateFormData("windowToWallRatio", e.target.value)}
+                        placeholder="Optional"
+                        min="0"
+                        max="100"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="shading">Window Shading</Label>
+                      <Select value={formData.shading} onValueChange={(value) => updateFormData("shading", value)}>
+                        <SelectTrigger id="shading">
+                          <SelectValue placeholder="Unknown" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="NONE">None</SelectItem>
+                          <SelectItem value="PARTIAL">Partial</SelectItem>
+                          <SelectItem value="FULL">Full</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="backupPower">Backup Power</Label>
+                      <Select value={formData.backupPower} onValueChange={(value) => updateFormData("backupPower", value)}>
+                        <SelectTrigger id="backupPower">
+                          <SelectValue placeholder="Unknown" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="NONE">None</SelectItem>
+                          <SelectItem value="CRITICAL_LOADS">Critical loads</SelectItem>
+                          <SelectItem value="WHOLE_BUILDING">Whole building</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="warmingScenario">Warming Scenario</Label>
+                    <Select
+                      value={formData.warmingScenario}
+                      onValueChange={(value) => updateFormData("warmingScenario", value)}
+                    >
+                      <SelectTrigger id="warmingScenario">
+                        <SelectValue placeholder="Select warming scenario" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(WARMING_SCENARIOS) as WarmingScenario[]).map((scenario) => (
+                          <SelectItem key={scenario} value={scenario}>
+                            {WARMING_SCENARIOS[scenario]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
                   {/* Design Description */}
                   <div className="space-y-2">
                     <Label htmlFor="designDescription">Design Description (Optional)</Label>
@@ -495,6 +1525,14 @@ export default function ClimateAdaptiveArchitectureTool() {
             {/* Results Section */}
             {result && (
               <div className="space-y-6">
+                {/* Input Warnings */}
+                {result.warnings.map((warning, index) => (
+                  <Alert key={index}>
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertDescription>{warning}</AlertDescription>
+                  </Alert>
+                ))}
+
                 {/* Resilience Score */}
                 <Card className="border-l-4 border-l-blue-500">
                   <CardHeader>
@@ -526,51 +1564,465 @@ export default function ClimateAdaptiveArchitectureTool() {
                          result.currentScore >= 60 ? '🟡 Good resilience, improvements recommended' :
                          '🔴 Critical improvements needed'}
                       </div>
+                      <div className="text-sm text-gray-600 mt-2">
+                        {(result.timeline[0].firstFloorFloodProbability.annual * 100).toFixed(2)}% annual chance of flooding
+                        above the first floor ·{" "}
+                        {(result.timeline[0].firstFloorFloodProbability.overMortgage * 100).toFixed(0)}% over a 30-year mortgage
+                      </div>
+                      <div className="text-xs text-gray-400 mt-2">
+                        {result.floodHazard.floodZone ? `Zone ${result.floodHazard.floodZone} · ` : ""}
+                        BFE {result.floodHazard.baseFloodElevation} ft {result.floodHazard.datum}
+                        {result.floodHazard.baseFloodElevationSource === "FLOOD_MAP" ? " (from flood map)" : ""}
+                        {" · "}First floor {result.floodHazard.elevationAboveBFE} ft above BFE
+                      </div>
+                      <div className="text-xs text-gray-400 mt-2">
+                        Scoring profile: {result.scoringProfile.id} v{result.scoringProfile.version}
+                      </div>
                     </div>
                   </CardContent>
                 </Card>
 
+                {/* Multi-Hazard Scores */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Flood and Wind Scores</CardTitle>
+                    <CardDescription>
+                      Separate hazard scores and their weighted combination (design wind speed {result.wind.designWindSpeed} mph)
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="grid grid-cols-3 gap-4 mb-4 text-center">
+                      <div>
+                        <div className="text-3xl font-bold text-blue-600">{result.hazardScores.flood.toFixed(1)}</div>
+                        <div className="text-sm text-gray-600">Flood</div>
+                      </div>
+                      <div>
+                        <div className="text-3xl font-bold text-teal-600">{result.hazardScores.wind.toFixed(1)}</div>
+                        <div className="text-sm text-gray-600">Wind</div>
+                      </div>
+                      <div>
+                        <div className="text-3xl font-bold text-gray-800">{result.hazardScores.combined.toFixed(1)}</div>
+                        <div className="text-sm text-gray-600">Combined</div>
+                      </div>
+                    </div>
+                    <div className="space-y-1 text-sm">
+                      {result.wind.breakdown.components.map((part) => (
+                        <div key={part.component} className="flex items-center justify-between">
+                          <span className="text-gray-700">{WIND_SCORE_COMPONENTS[part.component]}</span>
+                          <span className="text-gray-600">
+                            {part.rawScore.toFixed(0)} × {(part.weight * 100).toFixed(1)}% = {part.contribution.toFixed(1)}
+                          </span>
+                        </div>
+                      ))}
+                      {result.wind.breakdown.adjustments.map((adjustment) => (
+                        <div key={adjustment.rule} className="flex items-center justify-between">
+                          <span className="text-gray-700">{adjustment.description}</span>
+                          <span className={adjustment.points < 0 ? "text-red-600" : "text-green-600"}>
+                            {adjustment.points > 0 ? "+" : ""}{adjustment.points}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </CardContent>
+                </Card>
+
+                {/* Score Breakdown */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Score Breakdown</CardTitle>
+                    <CardDescription>How each building component contributes to the flood resilience score</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="h-20">
+                      <ResponsiveContainer width="100%" height="100%">
+                        <BarChart
+                          layout="vertical"
+                          data={[
+                            Object.fromEntries(
+                              result.scoreBreakdown.components.map((part) => [part.component, Number(part.contribution.toFixed(1))])
+                            ),
+                          ]}
+                        >
+                          <XAxis type="number" domain={[0, 100]} />
+                          <YAxis type="category" hide />
+                          <Tooltip
+                            formatter={(value, name) => [
+                              `${value} points`,
+                              SCORE_COMPONENTS[name as ScoreComponent].label,
+                            ]}
+                          />
+                          {result.scoreBreakdown.components.map((part) => (
+                            <Bar
+                              key={part.component}
+                              dataKey={part.component}
+                              stackId="score"
+                              fill={SCORE_COMPONENTS[part.component].color}
+                            />
+                          ))}
+                        </BarChart>
+                      </ResponsiveContainer>
+                    </div>
+                    <div className="mt-4 space-y-1 text-sm">
+                      {result.scoreBreakdown.components.map((part) => (
+                        <div key={part.component} className="flex items-center justify-between">
+                          <span className="flex items-center gap-2">
+                            <span
+                              className="w-3 h-3 rounded-sm"
+                              style={{ backgroundColor: SCORE_COMPONENTS[part.component].color }}
+                            ></span>
+                            {SCORE_COMPONENTS[part.component].label}
+                          </span>
+                          <span className="text-gray-600">
+                            {part.rawScore.toFixed(0)} × {(part.weight * 100).toFixed(1)}% = {part.contribution.toFixed(1)}
+                          </span>
+                        </div>
+                      ))}
+                      {result.scoreBreakdown.adjustments.map((adjustment) => (
+                        <div key={adjustment.rule} className="flex items-center justify-between">
+                          <span className="text-gray-700">{adjustment.description}</span>
+                          <span className={adjustment.points < 0 ? "text-red-600" : "text-green-600"}>
+                            {adjustment.points > 0 ? "+" : ""}{adjustment.points}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                    {(result.mitigation.applied.length > 0 || result.mitigation.ignored.length > 0) && (
+                      <div className="mt-4 pt-4 border-t space-y-1 text-sm">
+                        <div className="font-medium">Mitigation features</div>
+                        {result.mitigation.applied.map((entry) => (
+                          <div key={entry.feature} className="flex items-center justify-between">
+                            <span className="text-gray-700">{MITIGATION_FEATURES[entry.feature]}</span>
+                            <span className="text-gray-600">
+                              {entry.points < entry.basePoints
+                                ? `${entry.points.toFixed(1)} of ${entry.basePoints} (diminishing returns)`
+                                : entry.points.toFixed(1)}
+                            </span>
+                          </div>
+                        ))}
+                        {result.mitigation.synergies.map((synergy) => (
+                          <div key={synergy.features.join("+")} className="flex items-center justify-between">
+                            <span className="text-gray-700">{synergy.description}</span>
+                            <span className="text-green-600">+{synergy.points}</span>
+                          </div>
+                        ))}
+                        {result.mitigation.ignored.map((entry) => (
+                          <div key={entry.feature} className="flex items-center justify-between">
+                            <span className="text-gray-400">{MITIGATION_FEATURES[entry.feature]}</span>
+                            <span className="text-gray-400">Not applicable</span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+
                 {/* Performance Chart */}
                 <Card>
                   <CardHeader>
                     <CardTitle>Performance Timeline</CardTitle>
-                    <CardDescription>Projected resilience scores with climate change impacts</CardDescription>
+                    <CardDescription>
+                      Projected resilience scores under the {SEA_LEVEL_SCENARIOS[result.scenario].label} sea level rise scenario
+                      {result.scenarioTimelines.length > 1 ? " and alternatives" : ""}
+                    </CardDescription>
                   </CardHeader>
                   <CardContent>
                     <div className="h-64">
                       <ResponsiveContainer width="100%" height="100%">
-                        <LineChart data={result.timeline}>
+                        <ComposedChart
+                          data={result.timeline.map((timepoint, index) => {
+                            const band = result.uncertainty?.timeline[index]
+                            return {
+                              ...timepoint,
+                              ...Object.fromEntries(
+                                result.scenarioTimelines.map((series) => [series.scenario, series.timeline[index]?.score])
+                              ),
+                              ...(band
+                                ? {
+                                    scoreBand: [band.score.p10, band.score.p90],
+                                    bfeBand: [band.projectedBFE.p10, band.projectedBFE.p90],
+                                  }
+                                : {}),
+                            }
+                          })}
+                        >
                           <CartesianGrid strokeDasharray="3 3" />
                           <XAxis dataKey="year" />
                           <YAxis />
                           <Tooltip
-                            formatter={(value, name) => [
-                              name === 'score' ? `${value} points` : `${value} ft`,
-                              name === 'score' ? 'Resilience Score' : 'Projected BFE'
-                            ]}
-                          />
-                          <Line
-                            type="monotone"
-                            dataKey="score"
-                            stroke="#2563eb"
-                            strokeWidth={2}
-                            dot={{ fill: "#2563eb" }}
-                            name="score"
+                            formatter={(value, name) => {
+                              // Band values are [P10, P90] pairs, the only array values in the chart
+                              if (Array.isArray(value)) {
+                                const [low, high] = value.map(Number)
+                                return [
+                                  `${low.toFixed(1)} - ${high.toFixed(1)}${name === 'bfeBand' ? ' ft' : ''}`,
+                                  name === 'scoreBand' ? 'Score P10-P90' : 'BFE P10-P90',
+                                ]
+                              }
+                              return [
+                                name === 'projectedBFE' ? `${value} ft` : `${Number(value).toFixed(1)} points`,
+                                name === 'projectedBFE'
+                                  ? 'Projected BFE'
+                                  : `${SEA_LEVEL_SCENARIOS[name as SeaLevelScenario]?.label ?? 'Resilience'} Score`
+                              ]
+                            }}
                           />
+                          {result.uncertainty && (
+                            <Area
+                              type="monotone"
+                              dataKey="scoreBand"
+                              stroke="none"
+                              fill={SEA_LEVEL_SCENARIOS[result.scenario].color}
+                              fillOpacity={0.2}
+                              name="scoreBand"
+                            />
+                          )}
+                          {result.uncertainty && (
+                            <Area
+                              type="monotone"
+                              dataKey="bfeBand"
+                              stroke="none"
+                              fill="#6b7280"
+                              fillOpacity={0.2}
+                              name="bfeBand"
+                            />
+                          )}
+                          {result.scenarioTimelines.map((series) => (
+                            <Line
+                              key={series.scenario}
+                              type="monotone"
+                              dataKey={series.scenario}
+                              stroke={SEA_LEVEL_SCENARIOS[series.scenario].color}
+                              strokeWidth={2}
+                              dot={{ fill: SEA_LEVEL_SCENARIOS[series.scenario].color }}
+                              name={series.scenario}
+                            />
+                          ))}
                           <Line
                             type="monotone"
                             dataKey="projectedBFE"
-                            stroke="#dc2626"
+                            stroke="#6b7280"
                             strokeWidth={2}
-                            dot={{ fill: "#dc2626" }}
+                            strokeDasharray="4 4"
+                            dot={{ fill: "#6b7280" }}
                             name="projectedBFE"
                           />
-                        </LineChart>
+                        </ComposedChart>
                       </ResponsiveContainer>
                     </div>
                   </CardContent>
                 </Card>
 
+                {/* Extreme Heat */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Extreme Heat Resilience</CardTitle>
+                    <CardDescription>
+                      Indoor overheating risk under {WARMING_SCENARIOS[result.heat.warmingScenario]} warming
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="h-56">
+                      <ResponsiveContainer width="100%" height="100%">
+                        <ComposedChart data={result.heat.timeline}>
+                          <CartesianGrid strokeDasharray="3 3" />
+                          <XAxis dataKey="year" />
+                          <YAxis yAxisId="score" domain={[0, 100]} />
+                          <YAxis yAxisId="days" orientation="right" />
+                          <Tooltip
+                            formatter={(value, name) => [
+                              Number(value).toFixed(1),
+                              name === "score" ? "Heat score" : "Extreme heat days",
+                            ]}
+                          />
+                          <Line yAxisId="score" type="monotone" dataKey="score" stroke="#dc2626" strokeWidth={2} />
+                          <Bar yAxisId="days" dataKey="extremeHeatDays" fill="#fdba74" />
+                        </ComposedChart>
+                      </ResponsiveContainer>
+                    </div>
+                    <div className="mt-4 space-y-1 text-sm">
+                      {result.heat.timeline.map((entry) => (
+                        <div key={entry.year} className="flex justify-between">
+                          <span className="text-gray-700">{entry.year}</span>
+                          <span className="text-gray-600">
+                            +{entry.warming.toFixed(1)}°F · {entry.extremeHeatDays.toFixed(0)} days ·{" "}
+                            <span
+                              className={
+                                entry.overheatingRisk === "HIGH" ? "text-red-600" :
+                                entry.overheatingRisk === "MODERATE" ? "text-yellow-600" : "text-green-600"
+                              }
+                            >
+                              {entry.overheatingRisk.toLowerCase()} risk
+                            </span>
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </CardContent>
+                </Card>
+
+                {/* Flood Loss Estimate */}
+                {result.timeline[0]?.loss && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Flood Loss Estimate</CardTitle>
+                      <CardDescription>Expected annual loss from depth-damage curves across flood return periods</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="grid grid-cols-2 gap-4 mb-4 text-center">
+                        <div>
+                          <div className="text-3xl font-bold text-red-600">
+                            ${result.timeline[0].loss.expectedAnnualLoss.toLocaleString()}
+                          </div>
+                          <div className="text-sm text-gray-600">Expected annual loss today</div>
+                        </div>
+                        <div>
+                          <div className="text-3xl font-bold text-red-700">
+                            ${result.timeline[result.timeline.length - 1].loss?.cumulativeLoss.toLocaleString()}
+                          </div>
+                          <div className="text-sm text-gray-600">
+                            Cumulative loss through {result.timeline[result.timeline.length - 1].year}
+                          </div>
+                        </div>
+                      </div>
+                      <div className="space-y-1 text-sm">
+                        {result.timeline.map((timepoint) => (
+                          <div key={timepoint.year} className="flex justify-between">
+                            <span className="text-gray-700">{timepoint.year}</span>
+                            <span className="text-gray-600">
+                              ${timepoint.loss?.expectedAnnualLoss.toLocaleString()}/yr · ${timepoint.loss?.cumulativeLoss.toLocaleString()} cumulative
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    </CardContent>
+                  </Card>
+                )}
+
+                {/* Code and Ordinance Compliance */}
+                {compliance && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Code Compliance</CardTitle>
+                      <CardDescription>
+                        {compliance.summary.PASS} passed, {compliance.summary.FAIL} failed
+                        {compliance.summary.MISSING_INPUT > 0 ? `, ${compliance.summary.MISSING_INPUT} need more inputs` : ""}
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <ComplianceChecklist ruleSets={compliance.ruleSets} />
+                    </CardContent>
+                  </Card>
+                )}
+
+                {/* Flood Insurance Estimate */}
+                {insurance && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Flood Insurance Estimate</CardTitle>
+                      <CardDescription>
+                        Planning-level NFIP premium range for zone {insurance.floodZone} with ${insurance.coverage.building.toLocaleString()} building and ${insurance.coverage.contents.toLocaleString()} contents coverage
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="text-center mb-4">
+                        <div className="text-3xl font-bold text-blue-700">
+                          ${insurance.current.estimate.toLocaleString()}/yr
+                        </div>
+                        <div className="text-sm text-gray-600">
+                          Likely range ${insurance.current.low.toLocaleString()} - ${insurance.current.high.toLocaleString()} today
+                        </div>
+                      </div>
+                      <div className="space-y-1 text-sm mb-4">
+                        {insurance.timeline.map((entry) => (
+                          <div key={entry.year} className="flex justify-between">
+                            <span className="text-gray-700">
+                              {entry.year} ({entry.elevationDifference >= 0 ? "+" : ""}{entry.elevationDifference.toFixed(1)} ft vs BFE)
+                            </span>
+                            <span className="text-gray-600">
+                              ${entry.premium.low.toLocaleString()} - ${entry.premium.high.toLocaleString()}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                      {insurance.retrofitSavings.length > 0 && (
+                        <div>
+                          <h4 className="font-medium mb-2">Premium savings by retrofit</h4>
+                          <div className="space-y-1 text-sm">
+                            {insurance.retrofitSavings.map((option) => (
+                              <div key={option.description} className="flex justify-between">
+                                <span className="text-gray-700">{option.description}</span>
+                                <span className="text-green-700">
+                                  -${option.annualSavings.toLocaleString()}/yr
+                                </span>
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+                    </CardContent>
+                  </Card>
+                )}
+
+                {/* Sensitivity Analysis */}
+                {sensitivity && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>What Matters Most</CardTitle>
+                      <CardDescription>
+                        Score change in {sensitivity.year} when each input is varied (baseline {sensitivity.baselineScore.toFixed(1)})
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <TornadoChart factors={sensitivity.factors} />
+                    </CardContent>
+                  </Card>
+                )}
+
+                {/* Design Comparison */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Compare Design Options</CardTitle>
+                    <CardDescription>
+                      Save up to 5 assessed designs, then compare their timelines against the first one
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Button type="button" variant="outline" onClick={saveDesignOption} disabled={designOptions.length >= 5}>
+                        Save current design as Option {designOptions.length + 1}
+                      </Button>
+                      <Button
+                        type="button"
+                        onClick={compareDesignOptions}
+                        disabled={designOptions.length < 2 || isComparing}
+                      >
+                        {isComparing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        Compare {designOptions.length} options
+                      </Button>
+                      {designOptions.length > 0 && (
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          onClick={() => {
+                            setDesignOptions([])
+                            setComparison(null)
+                          }}
+                        >
+                          Clear
+                        </Button>
+                      )}
+                    </div>
+                    {comparison && (
+                      <DesignComparison
+                        comparison={comparison}
+                        componentLabels={Object.fromEntries(
+                          Object.entries(SCORE_COMPONENTS).map(([component, { label }]) => [component, label])
+                        )}
+                      />
+                    )}
+                  </CardContent>
+                </Card>
+
                 {/* Recommendations */}
                 <Card>
                   <CardHeader>
@@ -593,7 +2045,9 @@ export default function ClimateAdaptiveArchitectureTool() {
                 <Card>
                   <CardHeader>
                     <CardTitle>Timeline Insights</CardTitle>
-                    <CardDescription>Year-by-year projections and recommendations</CardDescription>
+                    <CardDescription>
+                      Year-by-year projections and recommendations (local subsidence {result.subsidenceRate.toFixed(1)} mm/yr)
+                    </CardDescription>
                   </CardHeader>
                   <CardContent>
                     <div className="space-y-4">
@@ -606,6 +2060,23 @@ export default function ClimateAdaptiveArchitectureTool() {
                           <p className="text-sm text-gray-600 mb-2">
                             Projected BFE: {timepoint.projectedBFE.toFixed(1)} ft
                           </p>
+                          <p className="text-xs text-gray-500 mb-2">
+                            Relative rise +{timepoint.relativeRise.toFixed(2)} ft: sea level +{timepoint.seaLevelRise.toFixed(2)} ft,
+                            subsidence +{timepoint.subsidence.toFixed(2)} ft
+                          </p>
+                          <p className="text-xs text-gray-500 mb-2">
+                            First-floor flood chance: {(timepoint.firstFloorFloodProbability.annual * 100).toFixed(2)}%/yr,{" "}
+                            {(timepoint.firstFloorFloodProbability.overMortgage * 100).toFixed(0)}% over 30 years
+                          </p>
+                          <p className="text-xs text-gray-500 mb-2">
+                            Rainfall ponding:{" "}
+                            {timepoint.pluvialPonding.map((ponding, pondingIndex) => (
+                              <span key={ponding.returnPeriod} className={ponding.reachesFirstFloor ? "text-red-600" : undefined}>
+                                {pondingIndex > 0 ? ", " : ""}
+                                {ponding.depth.toFixed(1)} ft ({ponding.returnPeriod}-yr)
+                              </span>
+                            ))}
+                          </p>
                           {timepoint.recommendations.length > 0 && (
                             <ul className="text-sm text-gray-700 space-y-1">
                               {timepoint.recommendations.slice(0, 2).map((rec, recIndex) => (
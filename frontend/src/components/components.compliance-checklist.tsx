@@ -0,0 +1,69 @@
+'use client'
+
+import * as React from 'react'
+import { CheckCircle2, CircleHelp, MinusCircle, XCircle } from 'lucide-react'
+
+export type ComplianceStatus = 'PASS' | 'FAIL' | 'NOT_APPLICABLE' | 'MISSING_INPUT'
+
+export interface ComplianceRuleSetResult {
+  id: string
+  version: string
+  name: string
+  compliant: boolean
+  results: Array<{
+    ruleId: string
+    title: string
+    status: ComplianceStatus
+    message: string
+    citation: string
+  }>
+}
+
+interface ComplianceChecklistProps {
+  ruleSets: ComplianceRuleSetResult[]
+  showNotApplicable?: boolean
+}
+
+const STATUS_ICONS: Record<ComplianceStatus, React.ReactNode> = {
+  PASS: <CheckCircle2 className="h-4 w-4 text-green-600" aria-label="Pass" />,
+  FAIL: <XCircle className="h-4 w-4 text-red-600" aria-label="Fail" />,
+  NOT_APPLICABLE: <MinusCircle className="h-4 w-4 text-gray-400" aria-label="Not applicable" />,
+  MISSING_INPUT: <CircleHelp className="h-4 w-4 text-yellow-600" aria-label="Missing input" />,
+}
+
+export function ComplianceChecklist({ ruleSets, showNotApplicable = false }: ComplianceChecklistProps) {
+  return (
+    <div className="space-y-6">
+      {ruleSets.map((ruleSet) => {
+        const results = ruleSet.results.filter((result) => showNotApplicable || result.status !== 'NOT_APPLICABLE')
+
+        return (
+          <div key={ruleSet.id}>
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="font-medium">{ruleSet.name}</h4>
+              <span className={`text-sm font-medium ${ruleSet.compliant ? 'text-green-700' : 'text-red-700'}`}>
+                {ruleSet.compliant ? 'No failures' : 'Does not comply'}
+              </span>
+            </div>
+            {results.length === 0 ? (
+              <p className="text-sm text-gray-600">No rules in this set apply to the design.</p>
+            ) : (
+              <ul className="space-y-2">
+                {results.map((result) => (
+                  <li key={result.ruleId} className="flex items-start gap-3 text-sm">
+                    <span className="mt-0.5 flex-shrink-0">{STATUS_ICONS[result.status]}</span>
+                    <div>
+                      <div className="text-gray-800">{result.title}</div>
+                      <div className="text-gray-600">{result.message}</div>
+                      <div className="text-xs text-gray-500">{result.citation}</div>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,105 @@
+'use client'
+
+import * as React from 'react'
+import { CartesianGrid, Legend, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts'
+
+export interface ComparisonVariant {
+  label: string
+  currentScore: number
+  scoreDelta: number
+  componentDeltas: Array<{
+    component: string
+    rawScoreDelta: number
+    contributionDelta: number
+  }>
+  adjustmentPointsDelta: number
+  timeline: Array<{ year: number; score: number }>
+  firstCriticalYear: number | null
+}
+
+export interface ComparisonResult {
+  years: number[]
+  criticalScore: number
+  variants: ComparisonVariant[]
+  firstCritical: { year: number; variants: string[] } | null
+}
+
+interface DesignComparisonProps {
+  comparison: ComparisonResult
+  componentLabels?: Record<string, string>
+}
+
+const LINE_COLORS = ['#2563eb', '#16a34a', '#ea580c', '#9333ea', '#0891b2']
+
+const formatDelta = (delta: number) => `${delta > 0 ? '+' : ''}${delta.toFixed(1)}`
+
+export function DesignComparison({ comparison, componentLabels = {} }: DesignComparisonProps) {
+  // One row per year with a score column per option, as recharts expects for overlaid lines
+  const data = comparison.years.map((year, index) => ({
+    year,
+    ...Object.fromEntries(comparison.variants.map((variant) => [variant.label, Number(variant.timeline[index].score.toFixed(1))])),
+  }))
+  const [baseline, ...options] = comparison.variants
+
+  return (
+    <div className="space-y-4">
+      <div className="h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={data}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="year" />
+            <YAxis domain={[0, 100]} />
+            <Tooltip />
+            <Legend />
+            <ReferenceLine y={comparison.criticalScore} stroke="#dc2626" strokeDasharray="4 4" />
+            {comparison.variants.map((variant, index) => (
+              <Line
+                key={variant.label}
+                type="monotone"
+                dataKey={variant.label}
+                stroke={LINE_COLORS[index % LINE_COLORS.length]}
+                strokeWidth={2}
+                dot={false}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      <p className="text-sm text-gray-700">
+        {comparison.firstCritical
+          ? `${comparison.firstCritical.variants.join(' and ')} first ${comparison.firstCritical.variants.length > 1 ? 'drop' : 'drops'} below the critical score of ${comparison.criticalScore} in ${comparison.firstCritical.year}.`
+          : `No option drops below the critical score of ${comparison.criticalScore} within the timeline.`}
+      </p>
+
+      <div className="space-y-3 text-sm">
+        {options.map((variant) => (
+          <div key={variant.label}>
+            <div className="flex items-center justify-between font-medium">
+              <span>
+                {variant.label} vs {baseline.label}
+              </span>
+              <span className={variant.scoreDelta < 0 ? 'text-red-600' : 'text-green-600'}>
+                {formatDelta(variant.scoreDelta)} points
+              </span>
+            </div>
+            {variant.componentDeltas
+              .filter((part) => part.contributionDelta !== 0)
+              .map((part) => (
+                <div key={part.component} className="flex items-center justify-between text-gray-600">
+                  <span>{componentLabels[part.component] ?? part.component}</span>
+                  <span>{formatDelta(part.contributionDelta)}</span>
+                </div>
+              ))}
+            {variant.adjustmentPointsDelta !== 0 && (
+              <div className="flex items-center justify-between text-gray-600">
+                <span>Rule adjustments</span>
+                <span>{formatDelta(variant.adjustmentPointsDelta)}</span>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
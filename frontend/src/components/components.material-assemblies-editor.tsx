@@ -0,0 +1,113 @@
+'use client'
+
+import * as React from 'react'
+import { Plus, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/ui.button'
+import { Input } from '@/components/ui/ui.input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/ui.select'
+
+export type MaterialType = 'CONCRETE' | 'STEEL_FRAME' | 'WOOD_FRAME' | 'MASONRY' | 'MIXED'
+
+export type MaterialLocation = 'BELOW_DFE' | 'ABOVE_DFE' | 'THROUGHOUT'
+
+export interface MaterialAssemblyRow {
+  material: MaterialType
+  location: MaterialLocation
+  share: string // Percent, kept as text while editing
+}
+
+const MATERIAL_LABELS: Record<MaterialType, string> = {
+  CONCRETE: 'Concrete',
+  STEEL_FRAME: 'Steel frame',
+  WOOD_FRAME: 'Wood frame',
+  MASONRY: 'Masonry',
+  MIXED: 'Mixed',
+}
+
+const LOCATION_LABELS: Record<MaterialLocation, string> = {
+  BELOW_DFE: 'Below flood elevation',
+  ABOVE_DFE: 'Above flood elevation',
+  THROUGHOUT: 'Throughout',
+}
+
+interface MaterialAssembliesEditorProps {
+  rows: MaterialAssemblyRow[]
+  onChange: (rows: MaterialAssemblyRow[]) => void
+}
+
+export function materialSharesTotal(rows: MaterialAssemblyRow[]): number {
+  return rows.reduce((sum, row) => sum + (Number.parseFloat(row.share) || 0), 0)
+}
+
+export function MaterialAssembliesEditor({ rows, onChange }: MaterialAssembliesEditorProps) {
+  const total = materialSharesTotal(rows)
+
+  const updateRow = (index: number, changes: Partial<MaterialAssemblyRow>) => {
+    onChange(rows.map((row, rowIndex) => (rowIndex === index ? { ...row, ...changes } : row)))
+  }
+
+  return (
+    <div className="space-y-2">
+      {rows.map((row, index) => (
+        <div key={index} className="grid grid-cols-[1fr_1fr_5rem_auto] gap-2 items-center">
+          <Select value={row.material} onValueChange={(value) => updateRow(index, { material: value as MaterialType })}>
+            <SelectTrigger aria-label="Material">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(MATERIAL_LABELS) as MaterialType[]).map((material) => (
+                <SelectItem key={material} value={material}>
+                  {MATERIAL_LABELS[material]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={row.location} onValueChange={(value) => updateRow(index, { location: value as MaterialLocation })}>
+            <SelectTrigger aria-label="Location">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(LOCATION_LABELS) as MaterialLocation[]).map((location) => (
+                <SelectItem key={location} value={location}>
+                  {LOCATION_LABELS[location]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            aria-label="Share (%)"
+            value={row.share}
+            onChange={(e) => updateRow(index, { share: e.target.value })}
+            min="0"
+            max="100"
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            aria-label="Remove material"
+            disabled={rows.length === 1}
+            onClick={() => onChange(rows.filter((_, rowIndex) => rowIndex !== index))}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <div className="flex items-center justify-between">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...rows, { material: 'CONCRETE', location: 'BELOW_DFE', share: '' }])}
+        >
+          <Plus className="h-4 w-4" />
+          Add material
+        </Button>
+        <span className={`text-sm ${Math.abs(total - 100) < 0.01 ? 'text-gray-600' : 'text-red-600'}`}>
+          Total {total}% of 100%
+        </span>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,50 @@
+'use client'
+
+import * as React from 'react'
+import { Bar, BarChart, CartesianGrid, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts'
+
+export interface SensitivityFactor {
+  input: string
+  label: string
+  baselineValue: string
+  low: { value: string; delta: number }
+  high: { value: string; delta: number }
+  swing: number
+}
+
+interface TornadoChartProps {
+  factors: SensitivityFactor[]
+  maxFactors?: number
+}
+
+export function TornadoChart({ factors, maxFactors = 8 }: TornadoChartProps) {
+  const rows = factors
+    .filter((factor) => factor.swing > 0)
+    .slice(0, maxFactors)
+    .map((factor) => ({ ...factor, lowDelta: factor.low.delta, highDelta: factor.high.delta }))
+
+  if (rows.length === 0) {
+    return <p className="text-sm text-gray-600">No input changes the score at this horizon.</p>
+  }
+
+  return (
+    <div style={{ height: rows.length * 36 + 40 }}>
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart layout="vertical" data={rows} stackOffset="sign" margin={{ left: 24 }}>
+          <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+          <XAxis type="number" />
+          <YAxis type="category" dataKey="label" width={170} tick={{ fontSize: 12 }} />
+          <Tooltip
+            formatter={(value, name, item) => {
+              const side = name === 'lowDelta' ? item.payload.low : item.payload.high
+              return [`${Number(value) > 0 ? '+' : ''}${value} points`, side.value]
+            }}
+          />
+          <ReferenceLine x={0} stroke="#374151" />
+          <Bar dataKey="lowDelta" stackId="swing" fill="#ef4444" />
+          <Bar dataKey="highDelta" stackId="swing" fill="#22c55e" />
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  )
+}